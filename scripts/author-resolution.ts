@@ -0,0 +1,184 @@
+import fs from 'fs/promises';
+import { CommitRecord } from './contribution-sources.js';
+
+/**
+ * COMMIT AUTHOR RESOLUTION
+ *
+ * GitHub only links a commit to an account when the author email is
+ * verified on that account, and never links co-authors at all. This
+ * resolves commit credit from, in order:
+ * 1. the linked GitHub account (`author.login`)
+ * 2. data/email-mappings.json, maintained by hand
+ * 3. emails learned from other commits in the same batch
+ * 4. GitHub noreply addresses (`12345+login@users.noreply.github.com`)
+ *
+ * `Co-authored-by:` trailers are resolved the same way and credited at a
+ * configurable share of a commit. Anything left over is reported so a
+ * maintainer can add the mapping.
+ */
+
+// Types
+export interface CommitIdentity {
+  name: string;
+  email: string;
+}
+
+export interface CommitCredit {
+  commit: CommitRecord;
+  login: string;
+  /** 1 for the author, coAuthorShare for each co-author */
+  share: number;
+  coAuthor: boolean;
+}
+
+export interface UnresolvedAuthor extends CommitIdentity {
+  commits: number;
+  coAuthoredCommits: number;
+  repos: string[];
+}
+
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+?)\s*<([^>]+)>\s*$/gim;
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+export const DEFAULT_CO_AUTHOR_SHARE = 0.5;
+
+/**
+ * Extract `Co-authored-by: Name <email>` trailers from a commit message
+ */
+export function parseCoAuthors(message: string): CommitIdentity[] {
+  const coAuthors: CommitIdentity[] = [];
+  for (const match of message.matchAll(CO_AUTHOR_TRAILER)) {
+    coAuthors.push({ name: match[1], email: match[2].trim() });
+  }
+  return coAuthors;
+}
+
+export class AuthorResolver {
+  private unresolvedByEmail = new Map<string, UnresolvedAuthor>();
+
+  constructor(
+    private emailMappings: Map<string, string>,
+    private coAuthorShare: number
+  ) {}
+
+  /**
+   * Load email → login mappings (a missing file means no mappings)
+   */
+  static async load(mappingPath: string, coAuthorShare = DEFAULT_CO_AUTHOR_SHARE): Promise<AuthorResolver> {
+    let mappings: Record<string, string> = {};
+    try {
+      mappings = JSON.parse(await fs.readFile(mappingPath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Could not read ${mappingPath}: ${error.message}`);
+      }
+    }
+
+    const normalized = new Map(
+      Object.entries(mappings).map(([email, login]) => [email.toLowerCase(), login])
+    );
+    return new AuthorResolver(normalized, coAuthorShare);
+  }
+
+  get mappingCount(): number {
+    return this.emailMappings.size;
+  }
+
+  /**
+   * Authors that could not be linked to a login, most active first
+   */
+  get unresolved(): UnresolvedAuthor[] {
+    return [...this.unresolvedByEmail.values()]
+      .map(entry => ({ ...entry, repos: [...entry.repos].sort() }))
+      .sort(
+        (a, b) =>
+          b.commits + b.coAuthoredCommits - (a.commits + a.coAuthoredCommits) ||
+          a.email.localeCompare(b.email)
+      );
+  }
+
+  /**
+   * Credit a batch of commits from one repository to GitHub logins
+   *
+   * Authors get a full commit each, co-authors `coAuthorShare` of one.
+   */
+  creditCommits(commits: CommitRecord[], repo: string): CommitCredit[] {
+    const learned = this.learnEmails(commits);
+    const credits: CommitCredit[] = [];
+
+    for (const commit of commits) {
+      const authorIdentity = commit.commit.author;
+      const author =
+        commit.author?.login ??
+        (authorIdentity?.email ? this.resolveEmail(authorIdentity.email, learned) : null);
+
+      if (author) {
+        credits.push({ commit, login: author, share: 1, coAuthor: false });
+      } else if (authorIdentity?.email) {
+        this.recordUnresolved(
+          { name: authorIdentity.name || '', email: authorIdentity.email },
+          repo,
+          'author'
+        );
+      }
+
+      if (this.coAuthorShare <= 0) continue;
+
+      const credited = new Set(author ? [author.toLowerCase()] : []);
+      for (const coAuthor of parseCoAuthors(commit.commit.message)) {
+        const login = this.resolveEmail(coAuthor.email, learned);
+        if (!login) {
+          this.recordUnresolved(coAuthor, repo, 'co-author');
+          continue;
+        }
+        if (credited.has(login.toLowerCase())) continue;
+
+        credited.add(login.toLowerCase());
+        credits.push({ commit, login, share: this.coAuthorShare, coAuthor: true });
+      }
+    }
+
+    return credits;
+  }
+
+  /**
+   * Emails used by commits that GitHub did link to an account
+   */
+  private learnEmails(commits: CommitRecord[]): Map<string, string> {
+    const learned = new Map<string, string>();
+    for (const commit of commits) {
+      const email = commit.commit.author?.email;
+      if (commit.author?.login && email) {
+        learned.set(email.toLowerCase(), commit.author.login);
+      }
+    }
+    return learned;
+  }
+
+  private resolveEmail(email: string, learned: Map<string, string>): string | null {
+    const key = email.toLowerCase();
+    const mapped = this.emailMappings.get(key) ?? learned.get(key);
+    if (mapped) return mapped;
+
+    const noreply = NOREPLY_EMAIL.exec(email);
+    return noreply ? noreply[1] : null;
+  }
+
+  private recordUnresolved(identity: CommitIdentity, repo: string, role: 'author' | 'co-author'): void {
+    const key = identity.email.toLowerCase();
+    let entry = this.unresolvedByEmail.get(key);
+    if (!entry) {
+      entry = { name: identity.name, email: identity.email, commits: 0, coAuthoredCommits: 0, repos: [] };
+      this.unresolvedByEmail.set(key, entry);
+    }
+
+    if (role === 'author') {
+      entry.commits++;
+    } else {
+      entry.coAuthoredCommits++;
+    }
+    if (!entry.repos.includes(repo)) {
+      entry.repos.push(repo);
+    }
+  }
+}
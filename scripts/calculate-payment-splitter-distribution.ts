@@ -59,6 +59,14 @@ function loadContributors(): any[] {
   }
 
   const data = JSON.parse(fs.readFileSync(contributorsPath, 'utf-8'));
+
+  if (data.complete === false && !process.argv.includes('--allow-incomplete')) {
+    const repos = (data.incompleteRepos || []).map((r: any) => r.repo).join(', ');
+    console.error(`❌ Contributor data is incomplete (failed: ${repos})`);
+    console.log('💡 Re-run: npm run track (or pass --allow-incomplete)');
+    process.exit(1);
+  }
+
   const eligible = data.contributors.filter((c: any) => c.eligible && c.wallet);
 
   if (eligible.length === 0) {
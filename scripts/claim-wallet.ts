@@ -0,0 +1,318 @@
+import { Octokit } from '@octokit/rest';
+import dotenv from 'dotenv';
+import { createOctokit } from './contribution-sources.js';
+import { Config, loadConfig } from './tracker-config.js';
+import { WalletClaim, buildClaimMessage, parseClaim, verifyClaimSignature } from './wallet-claims.js';
+import {
+  DEFAULT_WALLET_COOLDOWN,
+  WalletLogEntry,
+  appendWalletChange,
+  effectiveAt,
+  hasWalletHistory,
+  latestAddress,
+  readWalletLog,
+} from './wallet-mappings.js';
+
+dotenv.config({ path: '../.env' });
+
+/**
+ * CLAIM WALLET
+ *
+ * Verifies signed wallet claims (see wallet-claims.ts) and records them
+ * in the wallet log (data/wallet-log.jsonl) with their provenance:
+ *
+ *   # Print the message a contributor signs with their wallet
+ *   npm run claim-wallet -- --message --login=alice --address=0x…
+ *
+ *   # Verify a claim published in a gist or on the claims issue
+ *   npm run claim-wallet -- --url=https://gist.github.com/alice/<id>
+ *   npm run claim-wallet -- --url=https://github.com/<owner>/<repo>/issues/<n>#issuecomment-<id>
+ *
+ *   # Verify each login's newest claim on the claims issue (config.json
+ *   # walletClaims.issue); claims already in the wallet log are skipped
+ *   # so rescanning changes nothing
+ *   npm run claim-wallet -- --scan
+ *
+ * A claim is only accepted when the gist or comment belongs to the login
+ * it names. A claim replacing an existing wallet is pending until the
+ * walletChanges cool-down has passed. --dry-run verifies without writing
+ * anything.
+ */
+
+// Types
+interface ClaimOptions {
+  mode: 'message' | 'url' | 'scan';
+  login?: string;
+  address?: string;
+  url?: string;
+  dryRun: boolean;
+}
+
+interface PublishedClaim {
+  claim: WalletClaim;
+  /** Account that published the gist or comment */
+  author: string;
+  sourceUrl: string;
+  publishedAt: string;
+}
+
+const GIST_URL = /^https:\/\/gist\.github\.com\/(?:[^/]+\/)?([0-9a-f]+)\/?$/i;
+const COMMENT_URL = /^https:\/\/github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)#issuecomment-(\d+)$/i;
+
+// Parse command line options
+function parseArgs(): ClaimOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const mode = args.includes('--message') ? 'message' : args.includes('--scan') ? 'scan' : 'url';
+  const options: ClaimOptions = {
+    mode,
+    login: getArg('login'),
+    address: getArg('address'),
+    url: getArg('url'),
+    dryRun: args.includes('--dry-run'),
+  };
+
+  if (mode === 'message' && (!options.login || !options.address)) {
+    throw new Error('--message needs --login=<github login> and --address=<wallet address>');
+  }
+  if (mode === 'url' && !options.url) {
+    throw new Error('Pass --url=<gist or issue comment URL>, --scan or --message');
+  }
+  return options;
+}
+
+// Fetch a claim published in a gist
+async function fetchGistClaim(octokit: Octokit, url: string, gistId: string): Promise<PublishedClaim> {
+  const { data: gist } = await octokit.gists.get({ gist_id: gistId });
+  const claim = Object.values(gist.files || {})
+    .map(file => (file?.content ? parseClaim(file.content) : null))
+    .find(found => found !== null);
+  if (!claim) {
+    throw new Error(`No wallet claim found in gist ${url}`);
+  }
+  if (!gist.owner?.login) {
+    throw new Error(`Gist ${url} is anonymous`);
+  }
+
+  return { claim, author: gist.owner.login, sourceUrl: gist.html_url || url, publishedAt: gist.updated_at || '' };
+}
+
+// Fetch a claim published as a comment on the claims issue
+async function fetchCommentClaim(
+  octokit: Octokit,
+  config: Config,
+  match: RegExpExecArray
+): Promise<PublishedClaim> {
+  const [url, owner, repo, issue, commentId] = match;
+  const claimsIssue = config.walletClaims?.issue;
+  if (!claimsIssue) {
+    throw new Error('No claims issue configured (config.json walletClaims.issue); use a gist instead');
+  }
+  if (
+    owner.toLowerCase() !== claimsIssue.owner.toLowerCase() ||
+    repo.toLowerCase() !== claimsIssue.repo.toLowerCase() ||
+    Number(issue) !== claimsIssue.number
+  ) {
+    throw new Error(
+      `Claims are only accepted on ${claimsIssue.owner}/${claimsIssue.repo}#${claimsIssue.number}, not ${url}`
+    );
+  }
+
+  const { data: comment } = await octokit.issues.getComment({ owner, repo, comment_id: Number(commentId) });
+  // The anchor alone proves nothing: the comment must really belong to the issue
+  if (!comment.issue_url.endsWith(`/repos/${claimsIssue.owner}/${claimsIssue.repo}/issues/${claimsIssue.number}`)) {
+    throw new Error(`Comment ${commentId} is not on the claims issue`);
+  }
+  return commentClaim(comment);
+}
+
+function commentClaim(comment: {
+  body?: string;
+  user: { login: string } | null;
+  html_url: string;
+  updated_at: string;
+}): PublishedClaim {
+  const claim = comment.body ? parseClaim(comment.body) : null;
+  if (!claim) {
+    throw new Error(`No wallet claim found in ${comment.html_url}`);
+  }
+  if (!comment.user) {
+    throw new Error(`Comment ${comment.html_url} has no author`);
+  }
+  return { claim, author: comment.user.login, sourceUrl: comment.html_url, publishedAt: comment.updated_at };
+}
+
+// Whether this claim was logged before, by its signature or where it was published
+function alreadyLogged(entries: WalletLogEntry[], published: PublishedClaim): boolean {
+  return entries.some(
+    e =>
+      e.evidence.type === 'claim' &&
+      (e.evidence.provenance.signature === published.claim.signature ||
+        e.evidence.provenance.sourceUrl === published.sourceUrl)
+  );
+}
+
+// Check ownership and signature, returning the address the claim would
+// log, or null when the log already has it
+function claimChange(published: PublishedClaim, entries: WalletLogEntry[]): string | null {
+  const { claim, author } = published;
+  if (claim.login.toLowerCase() !== author.toLowerCase()) {
+    throw new Error(`Claim for ${claim.login} was published by ${author}`);
+  }
+  const address = verifyClaimSignature(claim);
+
+  if (alreadyLogged(entries, published)) return null;
+  if (latestAddress(entries, author)?.toLowerCase() === address.toLowerCase()) return null;
+  return address;
+}
+
+// Check ownership and signature, then record the mapping
+async function acceptClaim(published: PublishedClaim, config: Config, dryRun: boolean): Promise<void> {
+  const { claim, author, sourceUrl } = published;
+  const entries = await readWalletLog();
+  const address = claimChange(published, entries);
+  if (address === null) {
+    console.log(`   ✅ ${author}: ${sourceUrl} is already in the wallet log`);
+    return;
+  }
+
+  const now = new Date();
+  const previous = latestAddress(entries, author);
+  const waits = hasWalletHistory(entries, author);
+  if (!dryRun) {
+    await appendWalletChange(
+      author,
+      address,
+      {
+        type: 'claim',
+        provenance: {
+          message: claim.message,
+          signature: claim.signature,
+          sourceUrl,
+          publishedAt: published.publishedAt,
+          verifiedAt: now.toISOString(),
+        },
+      },
+      now
+    );
+  }
+
+  const change = !waits
+    ? 'new mapping'
+    : `was ${previous ?? 'none'}, applies from ` +
+      effectiveAt(now, config.walletChanges ?? DEFAULT_WALLET_COOLDOWN).toISOString();
+  console.log(`   ✅ ${author} → ${address} (${change})${dryRun ? ' [dry run]' : ''}`);
+  console.log(`      Source: ${sourceUrl}`);
+}
+
+// Verify the newest claim of every login on the claims issue
+//
+// Older claims are superseded and skipped: replaying them would append
+// them to the log again and restart the cool-down of the newest one.
+async function scanIssue(octokit: Octokit, config: Config, dryRun: boolean): Promise<number> {
+  const claimsIssue = config.walletClaims?.issue;
+  if (!claimsIssue) {
+    throw new Error('No claims issue configured (config.json walletClaims.issue)');
+  }
+  console.log(`🔎 Scanning ${claimsIssue.owner}/${claimsIssue.repo}#${claimsIssue.number} for wallet claims\n`);
+
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner: claimsIssue.owner,
+    repo: claimsIssue.repo,
+    issue_number: claimsIssue.number,
+    per_page: 100,
+  });
+
+  // Comments are listed oldest first, so later ones replace earlier ones
+  const newest = new Map<string, (typeof comments)[number]>();
+  for (const comment of comments) {
+    if (!comment.user || !comment.body || !parseClaim(comment.body)) continue;
+    newest.set(comment.user.login.toLowerCase(), comment);
+  }
+
+  let failures = 0;
+  for (const comment of newest.values()) {
+    try {
+      await acceptClaim(commentClaim(comment), config, dryRun);
+    } catch (error: any) {
+      failures++;
+      console.error(`   ❌ ${comment.html_url}: ${error.message}`);
+    }
+  }
+
+  // A second scan of the same comments must not log anything more
+  if (!dryRun) {
+    const entries = await readWalletLog();
+    const relogged = [...newest.values()].filter(comment => {
+      try {
+        return claimChange(commentClaim(comment), entries) !== null;
+      } catch {
+        return false;
+      }
+    });
+    if (relogged.length > 0) {
+      throw new Error(
+        `A rescan would log ${relogged.map(c => c.html_url).join(', ')} again; the wallet log needs a look`
+      );
+    }
+  }
+  return failures;
+}
+
+// Main function
+async function main() {
+  const options = parseArgs();
+
+  if (options.mode === 'message') {
+    console.log('✍️  Sign this message with your wallet (personal_sign / EIP-191):\n');
+    console.log(buildClaimMessage(options.login!, options.address!, new Date()));
+    console.log('\n💡 Publish the message followed by "Signature: 0x…" in a gist or on the claims issue.');
+    return;
+  }
+
+  if (!process.env.GITHUB_TOKEN) {
+    console.error('❌ GITHUB_TOKEN not found in environment variables');
+    process.exit(1);
+  }
+
+  console.log('🔏 Verifying wallet claims\n');
+  const config = await loadConfig();
+  const octokit = createOctokit(process.env.GITHUB_TOKEN);
+
+  let failures = 0;
+  if (options.mode === 'scan') {
+    failures = await scanIssue(octokit, config, options.dryRun);
+  } else {
+    const url = options.url!;
+    const gist = GIST_URL.exec(url);
+    const comment = COMMENT_URL.exec(url);
+    if (!gist && !comment) {
+      throw new Error(`Unsupported claim URL ${url} (expected a gist or an issue comment link)`);
+    }
+
+    try {
+      const published = gist
+        ? await fetchGistClaim(octokit, url, gist[1])
+        : await fetchCommentClaim(octokit, config, comment!);
+      await acceptClaim(published, config, options.dryRun);
+    } catch (error: any) {
+      failures++;
+      console.error(`   ❌ ${url}: ${error.message}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n⚠️  ${failures} claim(s) rejected`);
+    process.exitCode = 1;
+  } else if (!options.dryRun) {
+    console.log('\n💾 Wallet changes logged to data/wallet-log.jsonl');
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,72 @@
+import { CommitFileRecord } from './contribution-sources.js';
+import { globToRegExp } from './org-repos.js';
+import { CommitClassification } from './tracker-config.js';
+
+/**
+ * COMMIT CLASSIFICATION
+ *
+ * Splits a commit between categories (docs, tests, src, ...) by the lines
+ * it changes in files matching each category's path globs, so a commit
+ * can be weighted by what it touched rather than counting the same as
+ * any other commit.
+ *
+ * Files matching `ignore` (vendored or generated code) never count, and
+ * `maxFileChurn` caps the lines one file contributes to the split, so a
+ * giant lockfile or snapshot cannot decide what a commit was about.
+ */
+
+// Types
+export type CategoryShares = Record<string, number>;
+
+export const DEFAULT_COMMIT_CATEGORY = 'other';
+
+export class CommitClassifier {
+  private categories: { name: string; patterns: RegExp[] }[];
+  private ignore: RegExp[];
+
+  constructor(
+    private config: CommitClassification,
+    /** Repo-specific category globs, replacing config.paths */
+    paths?: Record<string, string[]>
+  ) {
+    this.categories = Object.entries(paths ?? config.paths).map(([name, globs]) => ({
+      name,
+      patterns: globs.map(globToRegExp),
+    }));
+    this.ignore = (config.ignore || []).map(globToRegExp);
+  }
+
+  /**
+   * Category of a single file: the first category with a matching glob
+   */
+  categorize(filename: string): string | null {
+    if (this.ignore.some(pattern => pattern.test(filename))) return null;
+    const match = this.categories.find(category => category.patterns.some(p => p.test(filename)));
+    return match?.name ?? this.config.defaultCategory ?? DEFAULT_COMMIT_CATEGORY;
+  }
+
+  /**
+   * Share of the commit per category (summing to 1), or an empty object
+   * when every changed file is ignored
+   */
+  classify(files: CommitFileRecord[]): CategoryShares {
+    const churn: Record<string, number> = {};
+    let total = 0;
+
+    for (const file of files) {
+      const category = this.categorize(file.filename);
+      if (!category) continue;
+
+      // Renames and mode changes still count as touching the file
+      const lines = Math.max(1, Math.min(file.changes, this.config.maxFileChurn ?? Infinity));
+      churn[category] = (churn[category] || 0) + lines;
+      total += lines;
+    }
+
+    const shares: CategoryShares = {};
+    for (const [category, lines] of Object.entries(churn)) {
+      shares[category] = lines / total;
+    }
+    return shares;
+  }
+}
@@ -0,0 +1,144 @@
+import { CommitCredit } from './author-resolution.js';
+import { CommitClassifier } from './commit-classification.js';
+import {
+  IssueCommentRecord,
+  IssueRecord,
+  PullRequestRecord,
+  ReviewCommentRecord,
+  ReviewRecord,
+} from './contribution-sources.js';
+import { ContributionEvent, EventMetadata, PrOutcome } from './scoring.js';
+
+/**
+ * CONTRIBUTION EVENTS
+ *
+ * Turns GitHub records into the events that are stored and scored. The
+ * tracker feeds it records fetched from the API and the webhook receiver
+ * feeds it records taken from delivery payloads, so both produce the
+ * same events for the same activity.
+ */
+
+/**
+ * Event for each commit credit (authors and co-authors)
+ */
+export function commitEvents(
+  credits: CommitCredit[],
+  classifier: CommitClassifier | null,
+  repo: string,
+  fallbackDate: Date
+): ContributionEvent[] {
+  return credits.map(({ commit, login, share, coAuthor }) => {
+    const metadata: EventMetadata = {};
+    if (coAuthor) metadata.coAuthor = true;
+    // Commits fetched before classification was configured have no files
+    if (classifier && commit.files) metadata.categories = classifier.classify(commit.files);
+
+    return {
+      id: commit.sha,
+      type: 'commit',
+      repo,
+      login,
+      timestamp: commit.commit.author?.date || fallbackDate.toISOString(),
+      credit: share,
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    };
+  });
+}
+
+/**
+ * Event for a pull request, tagged with its outcome
+ */
+export function pullRequestEvent(pr: PullRequestRecord, repo: string): ContributionEvent | null {
+  const author = pr.user?.login;
+  if (!author) return null;
+
+  const outcome: PrOutcome = pr.merged_at ? 'merged' : pr.state === 'open' ? 'open' : 'closed';
+
+  // prCountMode picks which of these dates counts when scoring
+  return {
+    id: String(pr.number),
+    type: 'pr',
+    repo,
+    login: author,
+    timestamp: pr.updated_at,
+    credit: 1,
+    metadata: {
+      outcome,
+      createdAt: pr.created_at,
+      mergedAt: pr.merged_at,
+      ...(pr.labels?.length ? { labels: pr.labels } : {}),
+    },
+  };
+}
+
+/**
+ * Event for an issue (pull requests listed as issues are skipped)
+ */
+export function issueEvent(issue: IssueRecord, repo: string): ContributionEvent | null {
+  const author = issue.user?.login;
+  if (issue.pull_request || !author) return null;
+
+  return {
+    id: String(issue.number),
+    type: 'issue',
+    repo,
+    login: author,
+    timestamp: issue.updated_at,
+    credit: 1,
+    ...(issue.labels?.length ? { metadata: { labels: issue.labels } } : {}),
+  };
+}
+
+/**
+ * Event for a submitted review
+ */
+export function reviewEvent(review: ReviewRecord, repo: string): ContributionEvent | null {
+  const reviewer = review.user?.login;
+  if (!reviewer || !review.submitted_at) return null;
+
+  return {
+    id: String(review.id),
+    type: 'review',
+    repo,
+    login: reviewer,
+    timestamp: review.submitted_at,
+    credit: 1,
+    metadata: { reviewState: review.state },
+  };
+}
+
+/**
+ * Event for an inline review comment
+ */
+export function reviewCommentEvent(comment: ReviewCommentRecord, repo: string): ContributionEvent | null {
+  const author = comment.user?.login;
+  if (!author) return null;
+
+  return {
+    id: String(comment.id),
+    type: 'review-comment',
+    repo,
+    login: author,
+    timestamp: comment.created_at,
+    credit: 1,
+    metadata: { item: comment.pull_request_url.split('/').pop() },
+  };
+}
+
+/**
+ * Event for an issue or PR discussion comment
+ */
+export function issueCommentEvent(comment: IssueCommentRecord, repo: string): ContributionEvent | null {
+  const author = comment.user?.login;
+  if (!author) return null;
+
+  return {
+    id: String(comment.id),
+    type: 'comment',
+    repo,
+    login: author,
+    timestamp: comment.created_at,
+    credit: 1,
+    metadata: { item: comment.issue_url.split('/').pop() },
+  };
+}
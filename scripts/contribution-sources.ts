@@ -0,0 +1,560 @@
+import { Octokit } from '@octokit/rest';
+import fs from 'fs/promises';
+import path from 'path';
+import type { RequestScheduler } from './request-scheduler.js';
+import type { HttpCache } from './tracker-cache.js';
+
+/**
+ * CONTRIBUTION SOURCES
+ *
+ * Backends that supply raw repository activity to the GitHub tracker.
+ * The tracker only counts what a source returns, so the same scoring code
+ * runs against the live GitHub API or against responses recorded to disk.
+ */
+
+// Types
+export interface GitHubUser {
+  login: string;
+}
+
+export interface CommitFileRecord {
+  filename: string;
+  /** Lines added plus lines deleted */
+  changes: number;
+}
+
+export interface CommitRecord {
+  sha: string;
+  author: GitHubUser | null;
+  commit: {
+    author: { name?: string; email?: string; date?: string } | null;
+    message: string;
+  };
+  /** Changed files, only fetched when commit classification is configured */
+  files?: CommitFileRecord[];
+}
+
+export interface PullRequestRecord {
+  number: number;
+  user: GitHubUser | null;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  labels?: string[];
+}
+
+export interface IssueRecord {
+  number: number;
+  user: GitHubUser | null;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  labels?: string[];
+  pull_request?: unknown;
+}
+
+export interface ReviewRecord {
+  id: number;
+  user: GitHubUser | null;
+  state: string;
+  submitted_at?: string;
+  pull_request_url: string;
+}
+
+/** Discussion comment on an issue or pull request */
+export interface IssueCommentRecord {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  issue_url: string;
+}
+
+/** Inline code comment left as part of a pull request review */
+export interface ReviewCommentRecord {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  pull_request_url: string;
+}
+
+export interface OrgRepoRecord {
+  name: string;
+  description: string | null;
+  archived: boolean;
+  fork: boolean;
+  topics: string[];
+}
+
+export interface ContributionSource {
+  readonly name: string;
+  /** Moment the tracking window is measured from (defaults to now) */
+  readonly referenceDate?: Date;
+  listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]>;
+  listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]>;
+  listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]>;
+  listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]>;
+  listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]>;
+  listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]>;
+  listOrgRepos(org: string): Promise<OrgRepoRecord[]>;
+  /** Persist any state the source keeps between runs */
+  close?(): Promise<void>;
+}
+
+export interface RecordTypes {
+  commits: CommitRecord;
+  pulls: PullRequestRecord;
+  issues: IssueRecord;
+  reviews: ReviewRecord;
+  reviewComments: ReviewCommentRecord;
+  issueComments: IssueCommentRecord;
+}
+
+export type RecordKind = keyof RecordTypes;
+
+/**
+ * How records of each kind are identified and placed in the tracking window
+ */
+export const RECORD_KINDS: {
+  [K in RecordKind]: {
+    key(record: RecordTypes[K]): string;
+    date(record: RecordTypes[K]): string | undefined;
+  };
+} = {
+  commits: { key: c => c.sha, date: c => c.commit.author?.date },
+  pulls: { key: pr => String(pr.number), date: pr => pr.updated_at },
+  issues: { key: issue => String(issue.number), date: issue => issue.updated_at },
+  reviews: { key: review => String(review.id), date: review => review.submitted_at },
+  reviewComments: { key: comment => String(comment.id), date: comment => comment.updated_at },
+  issueComments: { key: comment => String(comment.id), date: comment => comment.updated_at },
+};
+
+export function isInWindow<K extends RecordKind>(kind: K, record: RecordTypes[K], since: Date): boolean {
+  const date = RECORD_KINDS[kind].date(record);
+  return date !== undefined && new Date(date) >= since;
+}
+
+export interface GitHubClientOptions {
+  httpCache?: HttpCache;
+  scheduler?: RequestScheduler;
+  /** Fetch each commit's changed files (one extra request per commit) */
+  commitFiles?: boolean;
+}
+
+interface FixtureManifest {
+  recordedAt: string;
+  source: string;
+}
+
+const PER_PAGE = 100;
+
+function toUser(user: { login: string } | null | undefined): GitHubUser | null {
+  return user && user.login ? { login: user.login } : null;
+}
+
+/**
+ * Create an Octokit client with the tracker's request hooks installed
+ */
+export function createOctokit(token: string | undefined, options: GitHubClientOptions = {}): Octokit {
+  const octokit = new Octokit({ auth: token });
+  options.httpCache?.install(octokit);
+  options.scheduler?.install(octokit);
+  return octokit;
+}
+
+/**
+ * Live GitHub REST API source
+ */
+export class GitHubRestSource implements ContributionSource {
+  readonly name = 'github';
+  private octokit: Octokit;
+
+  constructor(
+    token: string | undefined,
+    private options: GitHubClientOptions = {}
+  ) {
+    this.octokit = createOctokit(token, options);
+  }
+
+  async close(): Promise<void> {
+    await this.options.httpCache?.save();
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    const records: CommitRecord[] = [];
+    let page = 1;
+
+    while (true) {
+      const { data: commits } = await this.octokit.repos.listCommits({
+        owner,
+        repo,
+        since: since.toISOString(),
+        per_page: PER_PAGE,
+        page,
+      });
+
+      if (commits.length === 0) break;
+
+      const pageRecords = await Promise.all(
+        commits.map(async (commit): Promise<CommitRecord> => ({
+          sha: commit.sha,
+          author: toUser(commit.author as { login: string } | null),
+          commit: {
+            author: commit.commit.author
+              ? {
+                  name: commit.commit.author.name,
+                  email: commit.commit.author.email,
+                  date: commit.commit.author.date,
+                }
+              : null,
+            message: commit.commit.message,
+          },
+          ...(this.options.commitFiles
+            ? { files: await this.listCommitFiles(owner, repo, commit.sha) }
+            : {}),
+        }))
+      );
+      records.push(...pageRecords);
+
+      // Check if we have more pages
+      if (commits.length < PER_PAGE) break;
+      page++;
+    }
+
+    return records;
+  }
+
+  async listCommitFiles(owner: string, repo: string, sha: string): Promise<CommitFileRecord[]> {
+    const { data } = await this.octokit.repos.getCommit({ owner, repo, ref: sha });
+    return (data.files || []).map(file => ({ filename: file.filename, changes: file.changes }));
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    const records: PullRequestRecord[] = [];
+    let page = 1;
+
+    while (true) {
+      const { data: prs } = await this.octokit.pulls.list({
+        owner,
+        repo,
+        state: 'all',
+        sort: 'updated',
+        direction: 'desc',
+        per_page: PER_PAGE,
+        page,
+      });
+
+      if (prs.length === 0) break;
+
+      let foundOldPR = false;
+      for (const pr of prs) {
+        if (new Date(pr.updated_at) < since) {
+          foundOldPR = true;
+          break;
+        }
+
+        records.push({
+          number: pr.number,
+          user: toUser(pr.user),
+          state: pr.state,
+          created_at: pr.created_at,
+          updated_at: pr.updated_at,
+          closed_at: pr.closed_at,
+          merged_at: pr.merged_at,
+          labels: pr.labels.map(label => label.name),
+        });
+      }
+
+      if (foundOldPR || prs.length < PER_PAGE) break;
+      page++;
+    }
+
+    return records;
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    const records: IssueRecord[] = [];
+    let page = 1;
+
+    while (true) {
+      const { data: issues } = await this.octokit.issues.listForRepo({
+        owner,
+        repo,
+        state: 'all',
+        sort: 'updated',
+        direction: 'desc',
+        since: since.toISOString(),
+        per_page: PER_PAGE,
+        page,
+      });
+
+      if (issues.length === 0) break;
+
+      for (const issue of issues) {
+        records.push({
+          number: issue.number,
+          user: toUser(issue.user),
+          state: issue.state,
+          created_at: issue.created_at,
+          updated_at: issue.updated_at,
+          labels: issue.labels.map(label => (typeof label === 'string' ? label : label.name || '')),
+          ...(issue.pull_request ? { pull_request: { url: issue.pull_request.url } } : {}),
+        });
+      }
+
+      if (issues.length < PER_PAGE) break;
+      page++;
+    }
+
+    return records;
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    const records: ReviewRecord[] = [];
+    let page = 1;
+
+    // Reviews are listed per PR, so walk the PRs updated since the cut-off
+    while (true) {
+      const { data: prs } = await this.octokit.pulls.list({
+        owner,
+        repo,
+        state: 'all',
+        sort: 'updated',
+        direction: 'desc',
+        per_page: PER_PAGE,
+        page,
+      });
+
+      if (prs.length === 0) break;
+
+      let foundOldPR = false;
+      for (const pr of prs) {
+        if (new Date(pr.updated_at) < since) {
+          foundOldPR = true;
+          break;
+        }
+
+        const reviews = await this.octokit.paginate(this.octokit.pulls.listReviews, {
+          owner,
+          repo,
+          pull_number: pr.number,
+          per_page: PER_PAGE,
+        });
+
+        for (const review of reviews) {
+          records.push({
+            id: review.id,
+            user: toUser(review.user),
+            state: review.state,
+            submitted_at: review.submitted_at,
+            pull_request_url: review.pull_request_url,
+          });
+        }
+      }
+
+      if (foundOldPR || prs.length < PER_PAGE) break;
+      page++;
+    }
+
+    return records;
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    const comments = await this.octokit.paginate(this.octokit.pulls.listReviewCommentsForRepo, {
+      owner,
+      repo,
+      sort: 'updated',
+      direction: 'asc',
+      since: since.toISOString(),
+      per_page: PER_PAGE,
+    });
+
+    return comments.map(comment => ({
+      id: comment.id,
+      user: toUser(comment.user),
+      body: comment.body,
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      pull_request_url: comment.pull_request_url,
+    }));
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    const comments = await this.octokit.paginate(this.octokit.issues.listCommentsForRepo, {
+      owner,
+      repo,
+      sort: 'updated',
+      direction: 'asc',
+      since: since.toISOString(),
+      per_page: PER_PAGE,
+    });
+
+    return comments.map(comment => ({
+      id: comment.id,
+      user: toUser(comment.user),
+      body: comment.body ?? '',
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      issue_url: comment.issue_url,
+    }));
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    const repos = await this.octokit.paginate(this.octokit.repos.listForOrg, {
+      org,
+      type: 'all',
+      per_page: PER_PAGE,
+    });
+
+    return repos.map(repo => ({
+      name: repo.name,
+      description: repo.description,
+      archived: repo.archived ?? false,
+      fork: repo.fork,
+      topics: repo.topics ?? [],
+    }));
+  }
+}
+
+/**
+ * Replays records saved by RecordingSource from disk
+ *
+ * Layout: <dir>/manifest.json and <dir>/<owner>/<repo>/<kind>.json.
+ * Repositories without a recording replay as having no activity.
+ */
+export class FixtureSource implements ContributionSource {
+  readonly name = 'fixtures';
+
+  constructor(
+    private dir: string,
+    readonly referenceDate?: Date
+  ) {}
+
+  static async open(dir: string): Promise<FixtureSource> {
+    const manifestPath = path.join(dir, 'manifest.json');
+    const manifest: FixtureManifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    return new FixtureSource(dir, new Date(manifest.recordedAt));
+  }
+
+  private async load<K extends RecordKind>(
+    owner: string,
+    repo: string,
+    kind: K,
+    since: Date
+  ): Promise<RecordTypes[K][]> {
+    const filePath = path.join(this.dir, owner, repo, `${kind}.json`);
+    let records: RecordTypes[K][];
+    try {
+      records = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Invalid fixture ${filePath}: ${error.message}`);
+    }
+    return records.filter(record => isInWindow(kind, record, since));
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    return this.load(owner, repo, 'commits', since);
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    return this.load(owner, repo, 'pulls', since);
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    return this.load(owner, repo, 'issues', since);
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    return this.load(owner, repo, 'reviews', since);
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    return this.load(owner, repo, 'reviewComments', since);
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    return this.load(owner, repo, 'issueComments', since);
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    const filePath = path.join(this.dir, org, 'repos.json');
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw new Error(`Invalid fixture ${filePath}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Passes records through from another source and saves them as fixtures
+ */
+export class RecordingSource implements ContributionSource {
+  readonly name: string;
+  readonly referenceDate: Date;
+
+  constructor(
+    private inner: ContributionSource,
+    private dir: string
+  ) {
+    this.name = `${inner.name} (recording)`;
+    this.referenceDate = inner.referenceDate ?? new Date();
+  }
+
+  private async save<T>(owner: string, repo: string, kind: RecordKind, records: T[]): Promise<T[]> {
+    await this.writeRecords(path.join(this.dir, owner, repo, `${kind}.json`), records);
+    return records;
+  }
+
+  private async writeRecords(filePath: string, records: unknown[]): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(records, null, 2));
+
+    const manifest: FixtureManifest = {
+      recordedAt: this.referenceDate.toISOString(),
+      source: this.inner.name,
+    };
+    await fs.writeFile(path.join(this.dir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    return this.save(owner, repo, 'commits', await this.inner.listCommits(owner, repo, since));
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    return this.save(owner, repo, 'pulls', await this.inner.listPullRequests(owner, repo, since));
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    return this.save(owner, repo, 'issues', await this.inner.listIssues(owner, repo, since));
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    return this.save(owner, repo, 'reviews', await this.inner.listReviews(owner, repo, since));
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    return this.save(owner, repo, 'reviewComments', await this.inner.listReviewComments(owner, repo, since));
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    return this.save(owner, repo, 'issueComments', await this.inner.listIssueComments(owner, repo, since));
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    const repos = await this.inner.listOrgRepos(org);
+    await this.writeRecords(path.join(this.dir, org, 'repos.json'), repos);
+    return repos;
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close?.();
+  }
+}
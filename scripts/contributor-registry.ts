@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { WalletLogEntry, latestAddress } from './wallet-mappings.js';
+
+/**
+ * CONTRIBUTOR REGISTRY
+ *
+ * Reads the wallet ↔ GitHub bindings contributors created on-chain with
+ * ContributorRegistry.register (or the owner with batchRegister), and
+ * compares them with the wallet log.
+ *
+ * A binding is confirmed when its ContributorRegistered event is at
+ * least `confirmations` blocks deep and `githubToAddress` still returns
+ * the same wallet at the end of the scanned range.
+ */
+
+// Types
+export interface Registration {
+  github: string;
+  wallet: string;
+  score: bigint;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface RegistryScan {
+  registry: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  registrations: Registration[];
+  /** Events whose binding no longer matches githubToAddress */
+  unconfirmed: { registration: Registration; boundTo: string }[];
+}
+
+export type RegistrationStatus = 'new' | 'unchanged' | 'conflict';
+
+export interface RegistrationComparison {
+  registration: Registration;
+  status: RegistrationStatus;
+  /** Latest address in the wallet log, pending changes included */
+  localAddress: string | null;
+}
+
+export const REGISTRY_ABI = [
+  'event ContributorRegistered(address indexed wallet, string github, uint256 score, uint256 votingPower)',
+  'function githubToAddress(string) public view returns (address)',
+];
+
+/**
+ * Read confirmed registrations between `fromBlock` and the block
+ * `confirmations` below `toBlock`, `blockChunk` blocks per log query
+ */
+export async function scanRegistrations(
+  provider: ethers.JsonRpcProvider,
+  registryAddress: string,
+  options: { fromBlock: number; toBlock: number; confirmations: number; blockChunk: number }
+): Promise<RegistryScan> {
+  const registry = new ethers.Contract(registryAddress, REGISTRY_ABI, provider);
+  const { chainId } = await provider.getNetwork();
+  const toBlock = options.toBlock - options.confirmations;
+  if (toBlock < options.fromBlock) {
+    throw new Error(
+      `Nothing confirmed to scan: block ${options.fromBlock} is less than ` +
+        `${options.confirmations} confirmations below ${options.toBlock}`
+    );
+  }
+
+  const registrations: Registration[] = [];
+  for (let start = options.fromBlock; start <= toBlock; start += options.blockChunk) {
+    const end = Math.min(start + options.blockChunk - 1, toBlock);
+    const logs = await registry.queryFilter(registry.filters.ContributorRegistered(), start, end);
+    for (const log of logs) {
+      if (!('args' in log)) continue;
+      registrations.push({
+        github: log.args.github,
+        wallet: ethers.getAddress(log.args.wallet),
+        score: log.args.score,
+        blockNumber: log.blockNumber,
+        txHash: log.transactionHash,
+      });
+    }
+  }
+
+  // The registry never unbinds a login, but a redeployed or upgraded
+  // registry could; only keep bindings the contract still reports
+  const confirmed: Registration[] = [];
+  const unconfirmed: RegistryScan['unconfirmed'] = [];
+  for (const registration of registrations) {
+    const boundTo = ethers.getAddress(
+      await registry.githubToAddress(registration.github, { blockTag: toBlock })
+    );
+    if (boundTo === registration.wallet) {
+      confirmed.push(registration);
+    } else {
+      unconfirmed.push({ registration, boundTo });
+    }
+  }
+
+  return {
+    registry: ethers.getAddress(registryAddress),
+    chainId: Number(chainId),
+    fromBlock: options.fromBlock,
+    toBlock,
+    registrations: confirmed,
+    unconfirmed,
+  };
+}
+
+/**
+ * Compare registrations with the wallet log (logins are matched
+ * case-insensitively)
+ */
+export function compareRegistrations(
+  registrations: Registration[],
+  entries: WalletLogEntry[]
+): RegistrationComparison[] {
+  return registrations.map(registration => {
+    const localAddress = latestAddress(entries, registration.github);
+    const status: RegistrationStatus =
+      localAddress === null
+        ? 'new'
+        : localAddress.toLowerCase() === registration.wallet.toLowerCase()
+          ? 'unchanged'
+          : 'conflict';
+    return { registration, status, localAddress };
+  });
+}
@@ -0,0 +1,298 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { UnresolvedAuthor } from './author-resolution.js';
+import { createEligibilityContext, ineligibilityReasons } from './eligibility.js';
+import { createExclusionMatcher } from './exclusions.js';
+import { IdentityResolver } from './identities.js';
+import { ResolvedRepo } from './org-repos.js';
+import {
+  ContributionEvent,
+  ContributorScore,
+  ExcludedAccount,
+  IneligibilityReason,
+  RepoResult,
+  mergeContributors,
+  removeExcludedAccounts,
+  requiredScore,
+  scoreEvents,
+} from './scoring.js';
+import { Config, TrackedRepo, repoName } from './tracker-config.js';
+import { TrackingWindow } from './tracking-window.js';
+import { PendingWalletChange } from './wallet-mappings.js';
+import { WalletIssue } from './wallet-validation.js';
+
+/**
+ * CONTRIBUTORS FILE
+ *
+ * Builds data/contributors.json from per-repository contribution events.
+ * The tracker does this right after fetching, the rescore command from
+ * the event store, so both produce exactly the same output.
+ */
+
+// Types
+export interface RepoEvents {
+  repo: TrackedRepo;
+  events: ContributionEvent[];
+}
+
+export interface IncompleteRepo {
+  repo: string;
+  error: string;
+}
+
+export interface ContributorsInput {
+  config: Config;
+  window: TrackingWindow;
+  now: Date;
+  /** Every repository that was meant to be scored */
+  trackedRepos: TrackedRepo[];
+  /** Events of the repositories that were fetched successfully */
+  repos: RepoEvents[];
+  resolvedRepos: ResolvedRepo[];
+  incompleteRepos: IncompleteRepo[];
+  walletMappings: Map<string, string>;
+  /** Rejected and conflicting wallet mappings, explaining ineligibility */
+  walletIssues: WalletIssue[];
+  /** Wallet changes still in their cool-down */
+  pendingWalletChanges: PendingWalletChange[];
+  identities: IdentityResolver;
+  unresolvedAuthors: UnresolvedAuthor[];
+}
+
+export interface ContributorStats {
+  totalContributors: number;
+  eligibleContributors: number;
+  contributorsWithWallet: number;
+  contributorsMeetingMinScore: number;
+  /**
+   * Contributors left out for each reason (one can have several);
+   * excluded accounts aren't contributors and are in excludedAccounts
+   */
+  ineligibleReasons: Record<Exclude<IneligibilityReason, 'excluded-bot'>, number>;
+  /** Logins folded into another contributor through data/identities.json */
+  aliasedLogins: number;
+  totalCommits: number;
+  totalPRs: number;
+  totalMergedPRs: number;
+  totalOpenPRs: number;
+  totalClosedPRs: number;
+  totalIssues: number;
+  totalReviews: number;
+  totalApprovals: number;
+  totalChangeRequests: number;
+  totalReviewComments: number;
+  totalComments: number;
+  topContributors: { github: string; score: number; rawScore: number; eligible: boolean }[];
+  excludedAccounts: ExcludedAccount[];
+  unresolvedAuthors: UnresolvedAuthor[];
+  pendingWalletChanges: PendingWalletChange[];
+}
+
+export interface ContributorsFile {
+  lastUpdated: string;
+  window: { from: string; to: string; epoch: number | null };
+  complete: boolean;
+  incompleteRepos: IncompleteRepo[];
+  config: {
+    timeFrame: Config['timeFrame'];
+    minScore: number;
+    scoring: Config['scoring'];
+    trackedRepos: number;
+    trackedOrgs: string[];
+    resolvedRepos: ResolvedRepo[];
+    repoAdjustments: { repo: string; weight: number; normalization: string }[];
+  };
+  stats: ContributorStats;
+  contributors: ContributorScore[];
+}
+
+export const DEFAULT_CONTRIBUTORS_PATH = path.join(process.cwd(), '../data/contributors.json');
+
+// Excluded accounts never become contributors, so they are not counted here
+function countReasons(contributors: ContributorScore[]): ContributorStats['ineligibleReasons'] {
+  const counts: ContributorStats['ineligibleReasons'] = {
+    'no-wallet': 0,
+    'below-min-score': 0,
+    'invalid-address': 0,
+    'opted-out': 0,
+    'duplicate-wallet': 0,
+  };
+  contributors.forEach(c =>
+    c.ineligibleReasons.forEach(reason => {
+      if (reason !== 'excluded-bot') counts[reason]++;
+    })
+  );
+  return counts;
+}
+
+/**
+ * Score every repository's events and assemble the contributors file
+ */
+export function buildContributorsFile(input: ContributorsInput): ContributorsFile {
+  const { config, window, now, incompleteRepos } = input;
+
+  const repoResults: RepoResult[] = input.repos.map(({ repo, events }) => ({
+    repo,
+    contributors: scoreEvents(repo, events, config.scoring, window, input.identities),
+  }));
+
+  // Drop bots and other excluded accounts so they don't count towards
+  // repo totals or eligibility
+  const excludedAccounts = removeExcludedAccounts(
+    repoResults,
+    createExclusionMatcher(config.exclusions)
+  );
+
+  const mergedContributors = mergeContributors(repoResults, config.scoring, now, input.identities);
+
+  // Apply wallet mappings and eligibility. An identity is paid to the
+  // first of its logins that has a wallet, canonical login first.
+  const eligibility = createEligibilityContext(config, input.identities, input.walletIssues);
+  for (const [github, data] of mergedContributors) {
+    const walletLogin = input.identities.logins(github).find(login => input.walletMappings.has(login));
+    data.wallet = walletLogin ? input.walletMappings.get(walletLogin)! : null;
+    data.ineligibleReasons = ineligibilityReasons(data, eligibility);
+    data.eligible = data.ineligibleReasons.length === 0;
+  }
+
+  // Sort by score
+  const sortedContributors = Array.from(mergedContributors.values())
+    .sort((a, b) => b.totalScore - a.totalScore);
+
+  // Generate statistics
+  const stats: ContributorStats = {
+    totalContributors: sortedContributors.length,
+    eligibleContributors: sortedContributors.filter(c => c.eligible).length,
+    contributorsWithWallet: sortedContributors.filter(c => c.wallet !== null).length,
+    contributorsMeetingMinScore: sortedContributors.filter(
+      c => c.totalScore >= requiredScore(config.minScore)
+    ).length,
+    ineligibleReasons: countReasons(sortedContributors),
+    aliasedLogins: sortedContributors.reduce((sum, c) => sum + c.aliases.length, 0),
+    totalCommits: sortedContributors.reduce((sum, c) => sum + c.commits, 0),
+    totalPRs: sortedContributors.reduce((sum, c) => sum + c.prs, 0),
+    totalMergedPRs: sortedContributors.reduce((sum, c) => sum + c.prsMerged, 0),
+    totalOpenPRs: sortedContributors.reduce((sum, c) => sum + c.prsOpen, 0),
+    totalClosedPRs: sortedContributors.reduce((sum, c) => sum + c.prsClosed, 0),
+    totalIssues: sortedContributors.reduce((sum, c) => sum + c.issues, 0),
+    totalReviews: sortedContributors.reduce((sum, c) => sum + c.reviews, 0),
+    totalApprovals: sortedContributors.reduce((sum, c) => sum + c.approvals, 0),
+    totalChangeRequests: sortedContributors.reduce((sum, c) => sum + c.changeRequests, 0),
+    totalReviewComments: sortedContributors.reduce((sum, c) => sum + c.reviewComments, 0),
+    totalComments: sortedContributors.reduce((sum, c) => sum + c.comments, 0),
+    topContributors: sortedContributors.slice(0, 10).map(c => ({
+      github: c.github,
+      score: c.totalScore,
+      rawScore: c.rawScore,
+      eligible: c.eligible,
+    })),
+    excludedAccounts,
+    unresolvedAuthors: input.unresolvedAuthors,
+    pendingWalletChanges: input.pendingWalletChanges,
+  };
+
+  const { trackedRepos } = input;
+
+  return {
+    lastUpdated: now.toISOString(),
+    window: {
+      from: window.from.toISOString(),
+      to: window.to.toISOString(),
+      epoch: window.epoch ?? null,
+    },
+    complete: incompleteRepos.length === 0,
+    incompleteRepos,
+    config: {
+      timeFrame: config.timeFrame,
+      minScore: config.minScore,
+      scoring: config.scoring,
+      trackedRepos: trackedRepos.length,
+      trackedOrgs: (config.trackedOrgs || []).map(o => o.org),
+      resolvedRepos: input.resolvedRepos,
+      repoAdjustments: trackedRepos
+        .filter(r => r.weight !== undefined || (r.normalization && r.normalization !== 'none'))
+        .map(r => ({
+          repo: repoName(r),
+          weight: r.weight ?? 1,
+          normalization: r.normalization || 'none',
+        })),
+    },
+    stats,
+    contributors: sortedContributors,
+  };
+}
+
+export async function writeContributorsFile(
+  file: ContributorsFile,
+  outputPath = DEFAULT_CONTRIBUTORS_PATH
+): Promise<void> {
+  await fs.writeFile(outputPath, JSON.stringify(file, null, 2));
+}
+
+/**
+ * Print statistics, excluded accounts, unresolved authors and the top 10
+ */
+export function printContributorsSummary(file: ContributorsFile): void {
+  const { stats } = file;
+  const { minScore } = file.config;
+
+  console.log('\n📊 STATISTICS:');
+  console.log(`   Total Contributors: ${stats.totalContributors}`);
+  console.log(`   Eligible Contributors: ${stats.eligibleContributors}`);
+  console.log(`   Contributors with Wallet: ${stats.contributorsWithWallet}`);
+  console.log(`   Meeting Min Score (${minScore}): ${stats.contributorsMeetingMinScore}`);
+  const reasons = Object.entries(stats.ineligibleReasons).filter(([, count]) => count > 0);
+  if (reasons.length > 0) {
+    console.log(`   Ineligible: ${reasons.map(([reason, count]) => `${count} ${reason}`).join(', ')}`);
+  }
+  if (stats.excludedAccounts.length > 0) {
+    console.log(`   Excluded Accounts (not counted above): ${stats.excludedAccounts.length}`);
+  }
+  if (stats.aliasedLogins > 0) {
+    console.log(`   Alias Logins Folded: ${stats.aliasedLogins}`);
+  }
+  console.log(`\n   Total Commits: ${stats.totalCommits}`);
+  console.log(
+    `   Total PRs: ${stats.totalPRs} (${stats.totalMergedPRs} merged, ` +
+      `${stats.totalOpenPRs} open, ${stats.totalClosedPRs} closed unmerged)`
+  );
+  console.log(`   Total Issues: ${stats.totalIssues}`);
+  console.log(
+    `   Total Reviews: ${stats.totalReviews} (${stats.totalApprovals} approvals, ` +
+      `${stats.totalChangeRequests} change requests)`
+  );
+  console.log(`   Total Review Comments: ${stats.totalReviewComments}`);
+  console.log(`   Total Discussion Comments: ${stats.totalComments}`);
+
+  if (stats.excludedAccounts.length > 0) {
+    console.log(`\n🤖 EXCLUDED ACCOUNTS (${stats.excludedAccounts.length}):`);
+    stats.excludedAccounts.forEach(a => {
+      console.log(`   - ${a.github} (${a.reason}) - Score removed: ${a.totalScore}`);
+    });
+  }
+
+  if (stats.unresolvedAuthors.length > 0) {
+    console.log(`\n❔ UNRESOLVED COMMIT AUTHORS (${stats.unresolvedAuthors.length}):`);
+    stats.unresolvedAuthors.slice(0, 10).forEach(a => {
+      console.log(
+        `   - ${a.name} <${a.email}> - ${a.commits} commits, ${a.coAuthoredCommits} co-authored`
+      );
+    });
+    console.log('   Map these emails to GitHub logins in data/email-mappings.json');
+  }
+
+  if (stats.pendingWalletChanges.length > 0) {
+    console.log(`\n⏳ PENDING WALLET CHANGES (${stats.pendingWalletChanges.length}):`);
+    stats.pendingWalletChanges.forEach(c => {
+      console.log(`   - ${c.login}: ${c.from ?? 'none'} → ${c.to ?? 'removed'} from ${c.effectiveAt}`);
+    });
+    console.log('   The current wallets are paid until then');
+  }
+
+  console.log('\n🏆 TOP 10 CONTRIBUTORS:');
+  stats.topContributors.forEach((c, i) => {
+    const badge = c.eligible ? '✅' : '❌';
+    const raw = c.rawScore !== c.score ? ` (raw ${c.rawScore})` : '';
+    console.log(`   ${i + 1}. ${badge} ${c.github} - Score: ${c.score}${raw}`);
+  });
+}
@@ -0,0 +1,158 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ContributorChange,
+  DEFAULT_RUNS_DIR,
+  RunDiff,
+  diffRuns,
+  listRuns,
+  loadRun,
+  resolveRun,
+} from './run-history.js';
+import { roundScore } from './scoring.js';
+
+/**
+ * DIFF RUNS
+ *
+ * Compares two archived tracker runs and reports new and dropped
+ * contributors, eligibility flips and score deltas:
+ *
+ *   npm run diff                          # previous run vs latest run
+ *   npm run diff -- 2913 2914             # latest runs of two epochs
+ *   npm run diff -- 2913                  # epoch 2913 vs latest run
+ *   npm run diff -- previous ../data/contributors.json
+ *   npm run diff -- --json                # JSON only, e.g. for a PR body
+ *   npm run diff -- --output=diff.json    # also write the JSON to a file
+ *   npm run diff -- --list                # show archived runs
+ *
+ * Without --json a table is printed, followed by the same diff as JSON.
+ */
+
+// Types
+interface DiffOptions {
+  oldRef: string;
+  newRef: string;
+  runsDir: string;
+  json: boolean;
+  outputPath: string | null;
+  list: boolean;
+}
+
+const STATUS_LABELS: Record<ContributorChange['status'], string> = {
+  new: '🆕 new',
+  dropped: '👋 dropped',
+  'newly-eligible': '✅ now eligible',
+  'newly-ineligible': '❌ no longer eligible',
+  changed: '',
+};
+
+// Parse command line options
+function parseArgs(): DiffOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const refs = args.filter(arg => !arg.startsWith('--'));
+  if (refs.length > 2) {
+    throw new Error(`Expected at most two runs to compare, got ${refs.length}`);
+  }
+
+  return {
+    oldRef: refs[0] ?? 'previous',
+    newRef: refs[1] ?? 'latest',
+    runsDir: path.resolve(getArg('runs') || DEFAULT_RUNS_DIR),
+    json: args.includes('--json'),
+    outputPath: getArg('output') ? path.resolve(getArg('output')!) : null,
+    list: args.includes('--list'),
+  };
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '-' : String(score);
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function describeRun(run: RunDiff['old']): string {
+  const window = run.window
+    ? `${run.window.from} to ${run.window.to}${run.window.epoch !== null ? ` (epoch ${run.window.epoch})` : ''}`
+    : 'unknown window';
+  return `${path.basename(run.path)} - ${window}`;
+}
+
+// Markdown table, readable in a terminal and pasteable into a PR body
+function printTable(diff: RunDiff): void {
+  const { summary } = diff;
+
+  console.log(`📜 Old: ${describeRun(diff.old)}`);
+  console.log(`📜 New: ${describeRun(diff.new)}\n`);
+  console.log(
+    `🆕 ${summary.newContributors} new, 👋 ${summary.droppedContributors} dropped, ` +
+      `✅ ${summary.newlyEligible} newly eligible, ❌ ${summary.newlyIneligible} newly ineligible, ` +
+      `📈 ${summary.scoreChanges} score changes`
+  );
+  console.log(
+    `   Total score: ${summary.oldTotalScore} → ${summary.newTotalScore} ` +
+      `(${formatDelta(roundScore(summary.newTotalScore - summary.oldTotalScore))})\n`
+  );
+
+  if (diff.changes.length === 0) {
+    console.log('No contributor changed between these runs.');
+    return;
+  }
+
+  const rows = diff.changes.map(c => [
+    c.github,
+    formatScore(c.oldScore),
+    formatScore(c.newScore),
+    formatDelta(c.delta),
+    STATUS_LABELS[c.status],
+  ]);
+  const header = ['Contributor', 'Old', 'New', 'Δ', 'Status'];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) => `| ${cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`;
+
+  console.log(line(header));
+  console.log(`|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`);
+  rows.forEach(row => console.log(line(row)));
+}
+
+// Main function
+async function main() {
+  const options = parseArgs();
+
+  if (options.list) {
+    const runs = await listRuns(options.runsDir);
+    console.log(`🗄️  ${runs.length} archived runs in ${options.runsDir}`);
+    for (const run of runs) {
+      const epoch = run.epoch !== null ? ` epoch ${run.epoch}` : '';
+      console.log(`   ${run.lastUpdated}${epoch} - ${path.basename(run.path)}`);
+    }
+    return;
+  }
+
+  const oldPath = await resolveRun(options.oldRef, options.runsDir);
+  const newPath = await resolveRun(options.newRef, options.runsDir);
+  const diff = diffRuns(await loadRun(oldPath), await loadRun(newPath), { old: oldPath, new: newPath });
+
+  if (options.json) {
+    console.log(JSON.stringify(diff, null, 2));
+  } else {
+    printTable(diff);
+    console.log('\n```json');
+    console.log(JSON.stringify(diff, null, 2));
+    console.log('```');
+  }
+
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, JSON.stringify(diff, null, 2));
+    if (!options.json) console.log(`\n💾 Diff saved to: ${options.outputPath}`);
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,125 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { DEFAULT_CONTRIBUTORS_PATH } from './contributors-file.js';
+import { REASON_LABELS, suggestedFix } from './eligibility.js';
+import { loadRun } from './run-history.js';
+import { IneligibilityReason } from './scoring.js';
+
+/**
+ * ELIGIBILITY REPORT
+ *
+ * Lists every contributor of a run with their status, the reasons they
+ * were left out and what they can do about it, as Markdown ready to
+ * paste into a community post:
+ *
+ *   npm run eligibility
+ *   npm run eligibility -- --ineligible            # only contributors left out
+ *   npm run eligibility -- --input=../data/runs/<run>.json
+ *   npm run eligibility -- --json
+ *   npm run eligibility -- --output=eligibility.md
+ *
+ * Excluded bot accounts are listed too, since they never become
+ * contributors.
+ */
+
+// Types
+interface ReportOptions {
+  inputPath: string;
+  ineligibleOnly: boolean;
+  json: boolean;
+  outputPath: string | null;
+}
+
+interface ContributorStatus {
+  github: string;
+  score: number;
+  eligible: boolean;
+  reasons: IneligibilityReason[];
+  fixes: string[];
+}
+
+// Parse command line options
+function parseArgs(): ReportOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  return {
+    inputPath: path.resolve(getArg('input') || DEFAULT_CONTRIBUTORS_PATH),
+    ineligibleOnly: args.includes('--ineligible'),
+    json: args.includes('--json'),
+    outputPath: getArg('output') ? path.resolve(getArg('output')!) : null,
+  };
+}
+
+// Runs written before reasons were recorded only know about wallets and scores
+function legacyReasons(c: { eligible: boolean; wallet: string | null; totalScore: number }, minScore: number) {
+  if (c.eligible) return [];
+  const reasons: IneligibilityReason[] = [];
+  if (c.totalScore < minScore) reasons.push('below-min-score');
+  if (!c.wallet) reasons.push('no-wallet');
+  return reasons;
+}
+
+function toMarkdown(statuses: ContributorStatus[], header: string[]): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  const lines = [...header, '', '| Contributor | Score | Status | Reasons | Suggested fix |', '|---|---|---|---|---|'];
+  for (const s of statuses) {
+    lines.push(
+      `| @${s.github} | ${s.score} | ${s.eligible ? '✅ eligible' : '❌ not eligible'} | ` +
+        `${escape(s.reasons.map(r => REASON_LABELS[r]).join(', ') || '-')} | ` +
+        `${escape(s.fixes.join('; ') || '-')} |`
+    );
+  }
+  return lines.join('\n');
+}
+
+// Main function
+async function main() {
+  const options = parseArgs();
+  const run = await loadRun(options.inputPath);
+  const { minScore } = run.config;
+
+  const contributors: ContributorStatus[] = run.contributors.map(c => {
+    const reasons = c.ineligibleReasons ?? legacyReasons(c, minScore);
+    return {
+      github: c.github,
+      score: c.totalScore,
+      eligible: c.eligible,
+      reasons,
+      fixes: reasons.map(reason => suggestedFix(reason, c, minScore)),
+    };
+  });
+  const excluded: ContributorStatus[] = (run.stats.excludedAccounts || []).map(a => ({
+    github: a.github,
+    score: a.totalScore,
+    eligible: false,
+    reasons: ['excluded-bot'],
+    fixes: [`${suggestedFix('excluded-bot', { ...a, wallet: null }, minScore)} (${a.reason})`],
+  }));
+
+  const statuses = [...contributors, ...excluded].filter(s => !options.ineligibleOnly || !s.eligible);
+  const eligibleCount = contributors.filter(c => c.eligible).length;
+  const window = `${run.window.from.slice(0, 10)} to ${run.window.to.slice(0, 10)}` +
+    (run.window.epoch !== null ? ` (epoch ${run.window.epoch})` : '');
+
+  const report = options.json
+    ? JSON.stringify({ window: run.window, minScore, eligible: eligibleCount, contributors: statuses }, null, 2)
+    : toMarkdown(statuses, [
+        `## Contributor eligibility, ${window}`,
+        '',
+        `${eligibleCount} of ${contributors.length} contributors are eligible (minimum score ${minScore}).`,
+      ]);
+
+  console.log(report);
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, report + '\n');
+    console.error(`\n💾 Report saved to: ${options.outputPath}`);
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
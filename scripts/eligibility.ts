@@ -0,0 +1,117 @@
+import { IdentityResolver } from './identities.js';
+import { ContributorScore, IneligibilityReason, requiredScore } from './scoring.js';
+import { Config } from './tracker-config.js';
+import { WalletIssue } from './wallet-validation.js';
+
+/**
+ * ELIGIBILITY
+ *
+ * Decides whether a contributor is paid, and if not, why:
+ *
+ * - excluded-bot: the login matches config.json exclusions (such
+ *   accounts are dropped before scoring and listed in the stats)
+ * - opted-out: a login of the contributor is in config.json optedOut
+ * - below-min-score: totalScore is under minScore, or rounds to a 0
+ *   leaf score (see requiredScore)
+ * - no-wallet: no wallet in effect for any of the contributor's logins
+ * - invalid-address: the only wallets recorded were rejected as
+ *   malformed, the zero address or a known contract
+ * - duplicate-wallet: the wallet is also mapped from another contributor
+ *
+ * A contributor with no reasons is eligible.
+ */
+
+// Types
+export interface EligibilityContext {
+  minScore: number;
+  identities: IdentityResolver;
+  /** Lowercased logins that opted out of payouts */
+  optedOut: Set<string>;
+  /** Rejected and conflicting wallet mappings (see wallet-validation.ts) */
+  walletIssues: WalletIssue[];
+}
+
+export const REASON_LABELS: Record<IneligibilityReason, string> = {
+  'no-wallet': 'No wallet',
+  'below-min-score': 'Below minimum score',
+  'invalid-address': 'Invalid wallet address',
+  'excluded-bot': 'Excluded bot account',
+  'opted-out': 'Opted out',
+  'duplicate-wallet': 'Wallet shared with another contributor',
+};
+
+export function createEligibilityContext(
+  config: Config,
+  identities: IdentityResolver,
+  walletIssues: WalletIssue[]
+): EligibilityContext {
+  return {
+    minScore: config.minScore,
+    identities,
+    optedOut: new Set((config.optedOut || []).map(login => login.toLowerCase())),
+    walletIssues,
+  };
+}
+
+/**
+ * Reasons a merged contributor is not eligible, most fundamental first
+ */
+export function ineligibilityReasons(
+  contributor: ContributorScore,
+  context: EligibilityContext
+): IneligibilityReason[] {
+  const logins = context.identities.logins(contributor.github).map(login => login.toLowerCase());
+  const reasons: IneligibilityReason[] = [];
+
+  if (logins.some(login => context.optedOut.has(login))) {
+    reasons.push('opted-out');
+  }
+  if (contributor.totalScore < requiredScore(context.minScore)) {
+    reasons.push('below-min-score');
+  }
+
+  if (contributor.wallet === null) {
+    const rejected = context.walletIssues.some(
+      issue =>
+        (issue.kind === 'invalid-address' || issue.kind === 'zero-address' || issue.kind === 'known-contract') &&
+        logins.includes(issue.logins[0].toLowerCase())
+    );
+    reasons.push(rejected ? 'invalid-address' : 'no-wallet');
+  } else {
+    const shared = context.walletIssues.some(
+      issue => issue.kind === 'shared-wallet' && issue.logins.includes(contributor.github)
+    );
+    if (shared) reasons.push('duplicate-wallet');
+  }
+
+  return reasons;
+}
+
+/**
+ * What a contributor can do about a reason, for the eligibility report
+ */
+export function suggestedFix(
+  reason: IneligibilityReason,
+  contributor: { github: string; totalScore: number; wallet: string | null },
+  minScore: number
+): string {
+  switch (reason) {
+    case 'no-wallet':
+      return (
+        `Claim a wallet: sign the message from \`npm run claim-wallet -- --message ` +
+        `--login=${contributor.github} --address=<wallet>\` and post it with the signature`
+      );
+    case 'below-min-score': {
+      const required = requiredScore(minScore);
+      return `Earn ${Math.round((required - contributor.totalScore) * 100) / 100} more points to reach ${required}`;
+    }
+    case 'invalid-address':
+      return 'The recorded wallet was rejected; post a new signed claim for a wallet you control';
+    case 'excluded-bot':
+      return 'Ask a maintainer to remove the account from the exclusions if it is a person';
+    case 'opted-out':
+      return 'Ask a maintainer to remove you from optedOut to be paid again';
+    case 'duplicate-wallet':
+      return `${contributor.wallet} is also claimed by another contributor; each contributor needs their own wallet`;
+  }
+}
@@ -0,0 +1,223 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { UnresolvedAuthor } from './author-resolution.js';
+import { ContributionEvent } from './scoring.js';
+import { TrackedRepo, repoName } from './tracker-config.js';
+
+/**
+ * CONTRIBUTION EVENT STORE
+ *
+ * Every event the tracker fetches is kept on disk, so contributors.json
+ * can be rebuilt offline (`npm run rescore`) under a different scoring
+ * config without refetching anything.
+ *
+ * Runs are merged into the store: an event seen again replaces the stored
+ * copy (a PR may have been merged since), and each repository records the
+ * span of time its stored events are complete for. Events pushed by the
+ * webhook receiver are merged the same way.
+ */
+
+// Types
+export interface Coverage {
+  from: string;
+  to: string;
+}
+
+export interface StoredRepo {
+  /** Repository as it was last tracked, including weight/normalization */
+  repo: TrackedRepo;
+  coverage: Coverage;
+  /**
+   * When a webhook delivery for the repository left events out; coverage
+   * is no longer extended until a tracker run records it again
+   */
+  incompleteSince?: string;
+}
+
+interface EventStoreFile {
+  version: 1;
+  updatedAt: string | null;
+  repos: Record<string, StoredRepo>;
+  /** Commit authors the last run could not link to a login */
+  unresolvedAuthors: UnresolvedAuthor[];
+  events: ContributionEvent[];
+}
+
+export const DEFAULT_EVENT_STORE_PATH = path.join(process.cwd(), '../data/events/store.json');
+
+/**
+ * Identity of an event across runs
+ */
+export function eventKey(event: ContributionEvent): string {
+  return `${event.type}:${event.repo}:${event.id}:${event.login.toLowerCase()}`;
+}
+
+export class EventStore {
+  private events: Map<string, ContributionEvent>;
+
+  /** updatedAt of the file as it was opened */
+  private openedAt: string | null;
+
+  private constructor(
+    private filePath: string,
+    private data: EventStoreFile
+  ) {
+    this.events = new Map(data.events.map(event => [eventKey(event), event]));
+    this.openedAt = data.updatedAt;
+  }
+
+  static async open(filePath = DEFAULT_EVENT_STORE_PATH): Promise<EventStore> {
+    let data: EventStoreFile = { version: 1, updatedAt: null, repos: {}, unresolvedAuthors: [], events: [] };
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Could not read event store ${filePath}: ${error.message}`);
+      }
+    }
+    return new EventStore(filePath, data);
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /** When the last tracker run recorded into the store */
+  get updatedAt(): Date | null {
+    return this.data.updatedAt ? new Date(this.data.updatedAt) : null;
+  }
+
+  get unresolvedAuthors(): UnresolvedAuthor[] {
+    return this.data.unresolvedAuthors;
+  }
+
+  get size(): number {
+    return this.events.size;
+  }
+
+  repos(): StoredRepo[] {
+    return Object.values(this.data.repos);
+  }
+
+  getRepo(name: string): StoredRepo | undefined {
+    return this.data.repos[name.toLowerCase()];
+  }
+
+  eventsFor(name: string): ContributionEvent[] {
+    const key = name.toLowerCase();
+    return [...this.events.values()].filter(event => event.repo.toLowerCase() === key);
+  }
+
+  /**
+   * Store the events fetched for one repository over [from, to]
+   *
+   * Coverage is extended when the new span overlaps the stored one. A
+   * disjoint span replaces it, and the repository's older events go with
+   * it, since the gap between them was never fetched.
+   */
+  record(repo: TrackedRepo, events: ContributionEvent[], from: Date, to: Date): void {
+    const name = repoName(repo);
+    const key = name.toLowerCase();
+    const previous = this.data.repos[key];
+
+    let coverage: Coverage = { from: from.toISOString(), to: to.toISOString() };
+    if (previous && new Date(previous.coverage.from) <= to && new Date(previous.coverage.to) >= from) {
+      coverage = {
+        from: previous.coverage.from < coverage.from ? previous.coverage.from : coverage.from,
+        to: previous.coverage.to > coverage.to ? previous.coverage.to : coverage.to,
+      };
+    } else if (previous) {
+      for (const [eventId, event] of this.events) {
+        if (event.repo.toLowerCase() === key) this.events.delete(eventId);
+      }
+    }
+
+    for (const event of events) {
+      this.events.set(eventKey(event), event);
+    }
+    this.data.repos[key] = { repo, coverage };
+  }
+
+  /**
+   * Store events delivered by webhook for one repository
+   *
+   * A repository the store doesn't know yet is covered from the moment
+   * the receiver started listening; see extendCoverage for the others.
+   * An incomplete delivery stops the repository's coverage where it was.
+   */
+  ingest(
+    repo: TrackedRepo,
+    events: ContributionEvent[],
+    listeningSince: Date,
+    receivedAt: Date,
+    complete = true
+  ): void {
+    const key = repoName(repo).toLowerCase();
+    const stored = (this.data.repos[key] ??= {
+      repo,
+      coverage: {
+        from: listeningSince.toISOString(),
+        to: (complete ? receivedAt : listeningSince).toISOString(),
+      },
+    });
+    if (!complete) {
+      stored.incompleteSince ??= receivedAt.toISOString();
+    }
+
+    for (const event of events) {
+      this.events.set(eventKey(event), event);
+    }
+  }
+
+  /**
+   * Forget an event that was deleted upstream
+   */
+  remove(event: ContributionEvent): boolean {
+    return this.events.delete(eventKey(event));
+  }
+
+  /**
+   * Extend coverage while the webhook receiver keeps listening
+   *
+   * Deliveries arrive without gaps from `listeningSince` on, so any
+   * repository covered up to that moment is now covered up to
+   * `receivedAt`. Coverage that stopped earlier, or after an incomplete
+   * delivery, has a gap only a tracker run can fill, and is left alone.
+   * GitHub webhooks say nothing about GitLab and Gitea repositories, so
+   * their coverage is never extended.
+   */
+  extendCoverage(listeningSince: Date, receivedAt: Date): void {
+    for (const stored of Object.values(this.data.repos)) {
+      if ((stored.repo.platform ?? 'github') !== 'github' || stored.incompleteSince) continue;
+      const to = new Date(stored.coverage.to);
+      if (to >= listeningSince && to < receivedAt) {
+        stored.coverage.to = receivedAt.toISOString();
+      }
+    }
+  }
+
+  setUnresolvedAuthors(authors: UnresolvedAuthor[]): void {
+    this.data.unresolvedAuthors = authors;
+  }
+
+  /**
+   * Write the store back, refusing when another process (a tracker run
+   * or the webhook receiver) saved it since it was opened, since writing
+   * this copy would drop that process's events
+   */
+  async save(updatedAt: Date): Promise<void> {
+    const onDisk = await EventStore.open(this.filePath);
+    if (onDisk.data.updatedAt !== this.openedAt) {
+      throw new Error(
+        `Event store ${this.filePath} was saved by another run since it was opened ` +
+          `(${onDisk.data.updatedAt} vs ${this.openedAt}); reopen it and try again`
+      );
+    }
+
+    this.data.updatedAt = updatedAt.toISOString();
+    this.data.events = [...this.events.values()];
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(this.data));
+    this.openedAt = this.data.updatedAt;
+  }
+}
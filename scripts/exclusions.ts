@@ -0,0 +1,61 @@
+/**
+ * ACCOUNT EXCLUSIONS
+ *
+ * Decides which GitHub logins are automated accounts that must not earn
+ * a score: anything ending in "[bot]", an explicit deny-list, and regex
+ * patterns for bots that don't use the GitHub App suffix.
+ *
+ * GitLab and Gitea logins are written `username@host`. The "[bot]" check
+ * looks at the bare username and patterns are tried against both, so
+ * `-bot$` matches on every forge; a deny-listed login matches that
+ * username on any host, or only on one host when written `username@host`.
+ */
+
+// Types
+export interface ExclusionConfig {
+  /** Exclude logins ending in "[bot]" (GitHub App accounts) */
+  excludeBots: boolean;
+  /** Exact logins to exclude (case-insensitive) */
+  logins: string[];
+  /** Regular expressions matched against the login (case-insensitive) */
+  patterns: string[];
+}
+
+export type ExclusionMatcher = (login: string) => string | null;
+
+export const DEFAULT_EXCLUSIONS: ExclusionConfig = {
+  excludeBots: true,
+  logins: [],
+  patterns: [],
+};
+
+/**
+ * Build a matcher returning why a login is excluded, or null if it isn't
+ */
+export function createExclusionMatcher(config: Partial<ExclusionConfig> = {}): ExclusionMatcher {
+  const { excludeBots, logins, patterns } = { ...DEFAULT_EXCLUSIONS, ...config };
+
+  const denyList = new Set(logins.map(login => login.toLowerCase()));
+  const regexes = patterns.map(pattern => {
+    try {
+      return { pattern, regex: new RegExp(pattern, 'i') };
+    } catch (error: any) {
+      throw new Error(`Invalid exclusion pattern "${pattern}": ${error.message}`);
+    }
+  });
+
+  return (login: string) => {
+    const username = login.includes('@') ? login.slice(0, login.lastIndexOf('@')) : login;
+    if (excludeBots && username.toLowerCase().endsWith('[bot]')) {
+      return 'bot account';
+    }
+    if (denyList.has(login.toLowerCase()) || denyList.has(username.toLowerCase())) {
+      return 'deny-listed login';
+    }
+    const match = regexes.find(({ regex }) => regex.test(username) || regex.test(login));
+    if (match) {
+      return `matches pattern ${match.pattern}`;
+    }
+    return null;
+  };
+}
@@ -0,0 +1,637 @@
+import {
+  CommitFileRecord,
+  CommitRecord,
+  ContributionSource,
+  GitHubClientOptions,
+  GitHubUser,
+  IssueCommentRecord,
+  IssueRecord,
+  OrgRepoRecord,
+  PullRequestRecord,
+  ReviewCommentRecord,
+  ReviewRecord,
+} from './contribution-sources.js';
+import type { RequestScheduler } from './request-scheduler.js';
+
+/**
+ * GITLAB AND GITEA SOURCES
+ *
+ * Contribution sources for repositories outside GitHub. They return the
+ * same records as the GitHub sources, so the tracker scores them with the
+ * same code:
+ * - merge requests become pull requests, with merged/open/closed outcomes
+ * - GitLab "approved this merge request" / "requested changes" system
+ *   notes and Gitea reviews become reviews
+ * - diff notes and review comments become review comments, other notes
+ *   become discussion comments
+ *
+ * Usernames are qualified with the host (`alice@gitlab.com`) so they can
+ * never collide with a GitHub login; data/identities.json links them to a
+ * contributor's GitHub identity and wallet.
+ */
+
+// Types
+export type ForgeClientOptions = Omit<GitHubClientOptions, 'httpCache'>;
+
+interface ForgeResponse<T> {
+  data: T;
+  headers: Record<string, string>;
+}
+
+interface GitLabUser {
+  username: string;
+}
+
+interface GitLabCommit {
+  id: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  message: string;
+}
+
+interface GitLabDiff {
+  new_path: string;
+  diff: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  author: GitLabUser | null;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  labels: string[];
+}
+
+interface GitLabIssue {
+  iid: number;
+  author: GitLabUser | null;
+  state: 'opened' | 'closed';
+  created_at: string;
+  updated_at: string;
+  labels: string[];
+}
+
+interface GitLabNote {
+  id: number;
+  author: GitLabUser | null;
+  body: string;
+  system: boolean;
+  type: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GitLabProject {
+  path: string;
+  description: string | null;
+  archived: boolean;
+  forked_from_project?: unknown;
+  topics?: string[];
+}
+
+interface GiteaUser {
+  login: string;
+}
+
+interface GiteaCommit {
+  sha: string;
+  author: GiteaUser | null;
+  commit: { author: { name: string; email: string; date: string } | null; message: string };
+  files?: { filename: string }[];
+}
+
+interface GiteaPullRequest {
+  number: number;
+  user: GiteaUser | null;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  labels: { name: string }[];
+}
+
+interface GiteaIssue {
+  number: number;
+  user: GiteaUser | null;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  labels: { name: string }[];
+  pull_request: unknown | null;
+}
+
+interface GiteaReview {
+  id: number;
+  user: GiteaUser | null;
+  state: string;
+  submitted_at: string | null;
+  pull_request_url: string;
+  comments_count: number;
+}
+
+interface GiteaComment {
+  id: number;
+  user: GiteaUser | null;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  issue_url?: string;
+  pull_request_url?: string;
+}
+
+interface GiteaRepo {
+  name: string;
+  description: string;
+  archived: boolean;
+  fork: boolean;
+  topics?: string[];
+}
+
+const PER_PAGE = 100;
+// Gitea caps page sizes at 50 by default
+const GITEA_PER_PAGE = 50;
+
+const GITLAB_REVIEW_NOTES: Record<string, string> = {
+  'approved this merge request': 'APPROVED',
+  'requested changes': 'CHANGES_REQUESTED',
+};
+
+const GITEA_REVIEW_STATES: Record<string, string> = {
+  REQUEST_CHANGES: 'CHANGES_REQUESTED',
+  COMMENT: 'COMMENTED',
+};
+
+/**
+ * Login a platform username is tracked under
+ */
+export function platformLogin(username: string, host: string): string {
+  return `${username}@${host}`;
+}
+
+/**
+ * Minimal JSON client for REST APIs paginated with a page parameter
+ *
+ * Failed requests throw errors shaped like Octokit's (status and
+ * response headers), so the request scheduler can retry them.
+ */
+class ForgeClient {
+  constructor(
+    private baseUrl: string,
+    private headers: Record<string, string>,
+    /** Query parameter holding the page size (`per_page` or `limit`) */
+    private pageSizeParam: string,
+    private scheduler?: RequestScheduler
+  ) {}
+
+  async get<T>(endpoint: string, params: Record<string, string | number> = {}): Promise<T> {
+    const url = new URL(`${this.baseUrl}${endpoint}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value));
+    }
+
+    const request = async (): Promise<ForgeResponse<T>> => {
+      const response = await fetch(url, { headers: { Accept: 'application/json', ...this.headers } });
+      const headers = Object.fromEntries(response.headers.entries());
+      if (!response.ok) {
+        throw Object.assign(new Error(`GET ${url.pathname} returned ${response.status}`), {
+          status: response.status,
+          response: { headers },
+        });
+      }
+      return { data: (await response.json()) as T, headers };
+    };
+
+    const { data } = this.scheduler
+      ? await this.scheduler.schedule(request, `GET ${url.pathname}`)
+      : await request();
+    return data;
+  }
+
+  /**
+   * Fetch pages until one comes back short, or `done` says the rest is
+   * older than needed
+   */
+  async paginate<T>(
+    endpoint: string,
+    params: Record<string, string | number>,
+    pageSize: number,
+    done: (page: T[]) => boolean = () => false
+  ): Promise<T[]> {
+    const records: T[] = [];
+
+    for (let page = 1; ; page++) {
+      const data = await this.get<T[]>(endpoint, { ...params, [this.pageSizeParam]: pageSize, page });
+      records.push(...data);
+      if (data.length < pageSize || done(data)) break;
+    }
+    return records;
+  }
+}
+
+/**
+ * Live GitLab REST API (v4) source, for gitlab.com or a self-managed host
+ */
+export class GitLabSource implements ContributionSource {
+  readonly name: string;
+  private client: ForgeClient;
+  // Notes are fetched per merge request/issue and shared by three record kinds
+  private notes = new Map<string, Promise<{ mergeRequest: GitLabMergeRequest; notes: GitLabNote[] }[]>>();
+
+  constructor(
+    private host: string,
+    token: string | undefined,
+    private options: ForgeClientOptions = {}
+  ) {
+    this.name = `gitlab (${host})`;
+    this.client = new ForgeClient(
+      `https://${host}/api/v4`,
+      token ? { 'PRIVATE-TOKEN': token } : {},
+      'per_page',
+      options.scheduler
+    );
+  }
+
+  private project(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  private user(user: GitLabUser | null): GitHubUser | null {
+    return user ? { login: platformLogin(user.username, this.host) } : null;
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    const commits = await this.client.paginate<GitLabCommit>(
+      `${this.project(owner, repo)}/repository/commits`,
+      { since: since.toISOString() },
+      PER_PAGE
+    );
+
+    // GitLab doesn't link commits to accounts; authors resolve by email
+    return Promise.all(
+      commits.map(async (commit): Promise<CommitRecord> => ({
+        sha: commit.id,
+        author: null,
+        commit: {
+          author: { name: commit.author_name, email: commit.author_email, date: commit.authored_date },
+          message: commit.message,
+        },
+        ...(this.options.commitFiles ? { files: await this.listCommitFiles(owner, repo, commit.id) } : {}),
+      }))
+    );
+  }
+
+  async listCommitFiles(owner: string, repo: string, sha: string): Promise<CommitFileRecord[]> {
+    const diffs = await this.client.paginate<GitLabDiff>(
+      `${this.project(owner, repo)}/repository/commits/${sha}/diff`,
+      {},
+      PER_PAGE
+    );
+    return diffs.map(diff => ({
+      filename: diff.new_path,
+      changes: diff.diff.split('\n').filter(line => /^[+-](?![+-]{2})/.test(line)).length,
+    }));
+  }
+
+  private listMergeRequests(owner: string, repo: string, since: Date): Promise<GitLabMergeRequest[]> {
+    return this.client.paginate<GitLabMergeRequest>(
+      `${this.project(owner, repo)}/merge_requests`,
+      { state: 'all', updated_after: since.toISOString(), scope: 'all' },
+      PER_PAGE
+    );
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    const mergeRequests = await this.listMergeRequests(owner, repo, since);
+    return mergeRequests.map(mr => ({
+      number: mr.iid,
+      user: this.user(mr.author),
+      state: mr.state === 'opened' ? 'open' : 'closed',
+      created_at: mr.created_at,
+      updated_at: mr.updated_at,
+      closed_at: mr.closed_at ?? mr.merged_at,
+      merged_at: mr.merged_at,
+      labels: mr.labels,
+    }));
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    const issues = await this.client.paginate<GitLabIssue>(
+      `${this.project(owner, repo)}/issues`,
+      { updated_after: since.toISOString(), scope: 'all' },
+      PER_PAGE
+    );
+    return issues.map(issue => ({
+      number: issue.iid,
+      user: this.user(issue.author),
+      state: issue.state === 'opened' ? 'open' : 'closed',
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      labels: issue.labels,
+    }));
+  }
+
+  /**
+   * Notes of every merge request updated since `since` (a new note
+   * updates its merge request)
+   */
+  private mergeRequestNotes(owner: string, repo: string, since: Date) {
+    const key = `${owner}/${repo}@${since.toISOString()}`;
+    let notes = this.notes.get(key);
+    if (!notes) {
+      notes = this.listMergeRequests(owner, repo, since).then(mergeRequests =>
+        Promise.all(
+          mergeRequests.map(async mergeRequest => ({
+            mergeRequest,
+            notes: await this.client.paginate<GitLabNote>(
+              `${this.project(owner, repo)}/merge_requests/${mergeRequest.iid}/notes`,
+              {},
+              PER_PAGE
+            ),
+          }))
+        )
+      );
+      this.notes.set(key, notes);
+    }
+    return notes;
+  }
+
+  private mergeRequestUrl(owner: string, repo: string, iid: number): string {
+    return `https://${this.host}/api/v4${this.project(owner, repo)}/merge_requests/${iid}`;
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    const records: ReviewRecord[] = [];
+    for (const { mergeRequest, notes } of await this.mergeRequestNotes(owner, repo, since)) {
+      for (const note of notes) {
+        const state = GITLAB_REVIEW_NOTES[note.body.trim()];
+        if (!note.system || !state || new Date(note.created_at) < since) continue;
+        records.push({
+          id: note.id,
+          user: this.user(note.author),
+          state,
+          submitted_at: note.created_at,
+          pull_request_url: this.mergeRequestUrl(owner, repo, mergeRequest.iid),
+        });
+      }
+    }
+    return records;
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    const records: ReviewCommentRecord[] = [];
+    for (const { mergeRequest, notes } of await this.mergeRequestNotes(owner, repo, since)) {
+      for (const note of notes) {
+        if (note.system || note.type !== 'DiffNote' || new Date(note.updated_at) < since) continue;
+        records.push({
+          id: note.id,
+          user: this.user(note.author),
+          body: note.body,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+          pull_request_url: this.mergeRequestUrl(owner, repo, mergeRequest.iid),
+        });
+      }
+    }
+    return records;
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    const records: IssueCommentRecord[] = [];
+    const discussion = (note: GitLabNote) =>
+      !note.system && note.type !== 'DiffNote' && new Date(note.updated_at) >= since;
+
+    for (const { mergeRequest, notes } of await this.mergeRequestNotes(owner, repo, since)) {
+      for (const note of notes.filter(discussion)) {
+        records.push({
+          id: note.id,
+          user: this.user(note.author),
+          body: note.body,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+          issue_url: this.mergeRequestUrl(owner, repo, mergeRequest.iid),
+        });
+      }
+    }
+
+    for (const issue of await this.listIssues(owner, repo, since)) {
+      const notes = await this.client.paginate<GitLabNote>(
+        `${this.project(owner, repo)}/issues/${issue.number}/notes`,
+        {},
+        PER_PAGE
+      );
+      for (const note of notes.filter(discussion)) {
+        records.push({
+          id: note.id,
+          user: this.user(note.author),
+          body: note.body,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+          issue_url: `https://${this.host}/api/v4${this.project(owner, repo)}/issues/${issue.number}`,
+        });
+      }
+    }
+    return records;
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    const projects = await this.client.paginate<GitLabProject>(
+      `/groups/${encodeURIComponent(org)}/projects`,
+      {},
+      PER_PAGE
+    );
+    return projects.map(project => ({
+      name: project.path,
+      description: project.description,
+      archived: project.archived,
+      fork: project.forked_from_project !== undefined,
+      topics: project.topics ?? [],
+    }));
+  }
+}
+
+/**
+ * Live Gitea REST API (v1) source, for a self-hosted instance or Codeberg
+ */
+export class GiteaSource implements ContributionSource {
+  readonly name: string;
+  private client: ForgeClient;
+  // Reviews are fetched per pull request and shared with review comments
+  private reviews = new Map<string, Promise<ReviewRecord[]>>();
+
+  constructor(
+    private host: string,
+    token: string | undefined,
+    private options: ForgeClientOptions = {}
+  ) {
+    this.name = `gitea (${host})`;
+    this.client = new ForgeClient(
+      `https://${host}/api/v1`,
+      token ? { Authorization: `token ${token}` } : {},
+      'limit',
+      options.scheduler
+    );
+  }
+
+  private user(user: GiteaUser | null): GitHubUser | null {
+    return user && user.login ? { login: platformLogin(user.login, this.host) } : null;
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    const commits = await this.client.paginate<GiteaCommit>(
+      `/repos/${owner}/${repo}/commits`,
+      {
+        since: since.toISOString(),
+        stat: 'false',
+        verification: 'false',
+        files: String(!!this.options.commitFiles),
+      },
+      GITEA_PER_PAGE
+    );
+
+    return commits.map(commit => ({
+      sha: commit.sha,
+      author: this.user(commit.author),
+      commit: {
+        author: commit.commit.author
+          ? {
+              name: commit.commit.author.name,
+              email: commit.commit.author.email,
+              date: commit.commit.author.date,
+            }
+          : null,
+        message: commit.commit.message,
+      },
+      // Gitea lists touched files without line counts
+      ...(this.options.commitFiles
+        ? { files: (commit.files || []).map(file => ({ filename: file.filename, changes: 0 })) }
+        : {}),
+    }));
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    const prs = await this.client.paginate<GiteaPullRequest>(
+      `/repos/${owner}/${repo}/pulls`,
+      { state: 'all', sort: 'recentupdate' },
+      GITEA_PER_PAGE,
+      page => page.some(pr => new Date(pr.updated_at) < since)
+    );
+
+    return prs
+      .filter(pr => new Date(pr.updated_at) >= since)
+      .map(pr => ({
+        number: pr.number,
+        user: this.user(pr.user),
+        state: pr.state,
+        created_at: pr.created_at,
+        updated_at: pr.updated_at,
+        closed_at: pr.closed_at,
+        merged_at: pr.merged_at,
+        labels: pr.labels.map(label => label.name),
+      }));
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    const issues = await this.client.paginate<GiteaIssue>(
+      `/repos/${owner}/${repo}/issues`,
+      { state: 'all', type: 'issues', since: since.toISOString() },
+      GITEA_PER_PAGE
+    );
+
+    return issues.map(issue => ({
+      number: issue.number,
+      user: this.user(issue.user),
+      state: issue.state,
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      labels: issue.labels.map(label => label.name),
+      ...(issue.pull_request ? { pull_request: issue.pull_request } : {}),
+    }));
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    const key = `${owner}/${repo}@${since.toISOString()}`;
+    let reviews = this.reviews.get(key);
+    if (!reviews) {
+      reviews = this.listPullRequests(owner, repo, since).then(async prs =>
+        (
+          await Promise.all(
+            prs.map(pr =>
+              this.client.paginate<GiteaReview>(
+                `/repos/${owner}/${repo}/pulls/${pr.number}/reviews`,
+                {},
+                GITEA_PER_PAGE
+              )
+            )
+          )
+        )
+          .flat()
+          // Pending reviews and review requests were never submitted
+          .filter(review => review.submitted_at && !['PENDING', 'REQUEST_REVIEW'].includes(review.state))
+          .map(review => ({
+            id: review.id,
+            user: this.user(review.user),
+            state: GITEA_REVIEW_STATES[review.state] ?? review.state,
+            submitted_at: review.submitted_at ?? undefined,
+            pull_request_url: review.pull_request_url,
+          }))
+      );
+      this.reviews.set(key, reviews);
+    }
+    return reviews;
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    const records: ReviewCommentRecord[] = [];
+    for (const review of await this.listReviews(owner, repo, since)) {
+      const index = review.pull_request_url.split('/').pop();
+      const comments = await this.client.get<GiteaComment[]>(
+        `/repos/${owner}/${repo}/pulls/${index}/reviews/${review.id}/comments`
+      );
+      for (const comment of comments) {
+        if (new Date(comment.updated_at) < since) continue;
+        records.push({
+          id: comment.id,
+          user: this.user(comment.user),
+          body: comment.body,
+          created_at: comment.created_at,
+          updated_at: comment.updated_at,
+          pull_request_url: review.pull_request_url,
+        });
+      }
+    }
+    return records;
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    const comments = await this.client.paginate<GiteaComment>(
+      `/repos/${owner}/${repo}/issues/comments`,
+      { since: since.toISOString() },
+      GITEA_PER_PAGE
+    );
+
+    return comments.map(comment => ({
+      id: comment.id,
+      user: this.user(comment.user),
+      body: comment.body,
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      issue_url: comment.issue_url || comment.pull_request_url || '',
+    }));
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    const repos = await this.client.paginate<GiteaRepo>(`/orgs/${org}/repos`, {}, GITEA_PER_PAGE);
+    return repos.map(repo => ({
+      name: repo.name,
+      description: repo.description || null,
+      archived: repo.archived,
+      fork: repo.fork,
+      topics: repo.topics ?? [],
+    }));
+  }
+}
@@ -2,6 +2,8 @@ import { MerkleTree } from 'merkletreejs';
 import { ethers } from 'ethers';
 import fs from 'fs/promises';
 import path from 'path';
+import { IdentityResolver } from './identities.js';
+import { IneligibilityReason, requiredScore, toLeafScore } from './scoring.js';
 
 /**
  * MERKLE TREE GENERATOR
@@ -23,6 +25,8 @@ interface Contributor {
   lastUpdated: string;
   eligible: boolean;
   repos: string[];
+  aliases?: string[];
+  ineligibleReasons?: IneligibilityReason[];
 }
 
 interface ContributorLeaf {
@@ -61,20 +65,104 @@ function createLeaf(wallet: string, github: string, score: number): string {
 
 /**
  * Load contributors from JSON
+ *
+ * Refuses data from a tracker run that could not fetch every repository,
+ * unless --allow-incomplete is passed.
  */
-async function loadContributors(): Promise<Contributor[]> {
+async function loadContributors(): Promise<{ contributors: Contributor[]; minScore: number }> {
   const filePath = path.join(process.cwd(), '../data/contributors.json');
   const data = await fs.readFile(filePath, 'utf-8');
   const parsed = JSON.parse(data);
-  return parsed.contributors || [];
+
+  if (parsed.complete === false && !process.argv.includes('--allow-incomplete')) {
+    const repos = (parsed.incompleteRepos || []).map((r: { repo: string }) => r.repo).join(', ');
+    throw new Error(
+      `contributors.json is incomplete (failed: ${repos}). Re-run npm run track or pass --allow-incomplete`
+    );
+  }
+
+  return { contributors: parsed.contributors || [], minScore: parsed.config?.minScore ?? 0 };
+}
+
+/**
+ * Fold contributors that belong to one identity in data/identities.json
+ *
+ * The tracker already folds aliases; doing it again here guarantees one
+ * leaf per canonical identity even when an alias was added after the
+ * tracker ran. Score and wallet are recomputed for the folded identity;
+ * any other reason the tracker gave for a member (opted out, shared or
+ * rejected wallet) keeps the whole identity out.
+ */
+function foldIdentities(
+  contributors: Contributor[],
+  identities: IdentityResolver,
+  minScore: number
+): Contributor[] {
+  const groups = new Map<string, Contributor[]>();
+  for (const contributor of contributors) {
+    const canonical = identities.canonical(contributor.github);
+    groups.set(canonical, [...(groups.get(canonical) || []), contributor]);
+  }
+
+  return [...groups.entries()].map(([canonical, group]) => {
+    if (group.length === 1) {
+      return { ...group[0], github: canonical };
+    }
+
+    console.log(`  🔗 Folding ${group.map(c => c.github).join(', ')} into ${canonical}`);
+    const byLogin = identities.logins(canonical).map(login => login.toLowerCase());
+    const walletOwner = [...group]
+      .filter(c => c.wallet)
+      .sort((a, b) => byLogin.indexOf(a.github.toLowerCase()) - byLogin.indexOf(b.github.toLowerCase()))[0];
+    const totalScore = Math.round(group.reduce((sum, c) => sum + c.totalScore, 0) * 100) / 100;
+    const wallet = walletOwner?.wallet ?? null;
+
+    const reasons = new Set<IneligibilityReason>(
+      group.flatMap(c => c.ineligibleReasons || []).filter(r => r !== 'below-min-score' && r !== 'no-wallet')
+    );
+    if (totalScore < requiredScore(minScore)) reasons.add('below-min-score');
+    if (wallet === null) reasons.add('no-wallet');
+    if (reasons.size > 0) {
+      console.log(`     ${canonical} is not eligible: ${[...reasons].join(', ')}`);
+    }
+
+    return {
+      github: canonical,
+      wallet,
+      commits: group.reduce((sum, c) => sum + c.commits, 0),
+      prs: group.reduce((sum, c) => sum + c.prs, 0),
+      issues: group.reduce((sum, c) => sum + c.issues, 0),
+      reviews: group.reduce((sum, c) => sum + c.reviews, 0),
+      totalScore,
+      lastUpdated: group[0].lastUpdated,
+      eligible: reasons.size === 0,
+      repos: [...new Set(group.flatMap(c => c.repos))],
+      aliases: [...new Set(group.flatMap(c => [c.github, ...(c.aliases || [])]))].filter(
+        login => login !== canonical
+      ),
+      ineligibleReasons: [...reasons],
+    };
+  });
 }
 
 /**
  * Filter eligible contributors
  */
 function filterEligible(contributors: Contributor[]): Contributor[] {
+  // The tracker validates wallets; anything invalid here was edited by hand
+  const invalid = contributors.filter(c => c.eligible && !(c.wallet && ethers.isAddress(c.wallet)));
+  invalid.forEach(c => console.log(`  ⚠️  Skipping ${c.github}: invalid wallet "${c.wallet}"`));
+  if (invalid.length > 0) {
+    console.log('     Run npm run validate-wallets and rerun the tracker');
+  }
+
+  // Runs from before eligibility required a non-zero leaf can still have them
+  const unpaid = contributors.filter(c => c.eligible && toLeafScore(c.totalScore) === 0);
+  unpaid.forEach(c => console.log(`  ⚠️  Skipping ${c.github}: score ${c.totalScore} rounds to 0`));
+
   return contributors.filter(c => 
     c.eligible && 
+    toLeafScore(c.totalScore) > 0 &&
     c.wallet !== null && 
     c.wallet !== '' &&
     ethers.isAddress(c.wallet)
@@ -98,7 +186,7 @@ function generateMerkleTree(contributors: Contributor[]): {
   // Generate leaves
   const leaves = sorted.map(contributor => ({
     contributor,
-    leaf: createLeaf(contributor.wallet!, contributor.github, contributor.totalScore)
+    leaf: createLeaf(contributor.wallet!, contributor.github, toLeafScore(contributor.totalScore))
   }));
 
   console.log(`  📄 Generated ${leaves.length} leaves`);
@@ -131,7 +219,7 @@ function generateProofs(
     return {
       github: contributor.github,
       wallet: contributor.wallet!,
-      score: contributor.totalScore,
+      score: toLeafScore(contributor.totalScore),
       leaf: leaf,
       proof: proof
     };
@@ -197,7 +285,7 @@ function generateStats(
   console.log(`\n📊 STATISTICS:`);
   console.log(`   Total Contributors: ${allContributors.length}`);
   console.log(`   Eligible (with wallet): ${eligibleContributors.length}`);
-  console.log(`   Not Eligible (no wallet): ${allContributors.length - eligibleContributors.length}`);
+  console.log(`   Not Eligible (see npm run eligibility): ${allContributors.length - eligibleContributors.length}`);
   console.log(`   Total Score: ${totalScore}`);
   console.log(`   Average Score: ${avgScore.toFixed(2)}`);
   console.log(`   Highest Score: ${Math.max(...eligibleContributors.map(c => c.totalScore))}`);
@@ -293,7 +381,9 @@ async function main() {
   try {
     // 1. Load contributors
     console.log('\n📂 Loading contributors...');
-    const allContributors = await loadContributors();
+    const loaded = await loadContributors();
+    const identities = await IdentityResolver.load();
+    const allContributors = foldIdentities(loaded.contributors, identities, loaded.minScore);
     console.log(`  ✅ Loaded ${allContributors.length} contributors`);
 
     // 2. Filter eligible
@@ -304,8 +394,8 @@ async function main() {
       console.log('\n⚠️  No eligible contributors found!');
       console.log('   Make sure contributors have:');
       console.log('   1. Score ≥ minimum score');
-      console.log('   2. Valid wallet address in wallet-mappings.json');
-      console.log('\n💡 Add wallet addresses to data/wallet-mappings.json');
+      console.log('   2. A valid wallet in effect (npm run wallets)');
+      console.log('\n💡 Verify signed wallet claims with: npm run claim-wallet -- --scan');
       console.log('   Then re-run: npm run track');
       return;
     }
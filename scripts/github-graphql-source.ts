@@ -0,0 +1,428 @@
+import { Octokit } from '@octokit/rest';
+import {
+  CommitRecord,
+  ContributionSource,
+  GitHubClientOptions,
+  GitHubRestSource,
+  GitHubUser,
+  IssueCommentRecord,
+  IssueRecord,
+  OrgRepoRecord,
+  PullRequestRecord,
+  ReviewCommentRecord,
+  ReviewRecord,
+  createOctokit,
+} from './contribution-sources.js';
+
+/**
+ * GITHUB GRAPHQL SOURCE
+ *
+ * Fetches a repository's pull requests together with their reviews, its
+ * issues and its commit authors in paginated GraphQL batches. Compared to
+ * the REST source this needs no per-PR review call and covers every PR
+ * updated in the window, not just the 30 most recent ones.
+ *
+ * Comments have no repository-wide GraphQL connection, so they come from
+ * the REST list endpoints, which already return a whole repository's
+ * comments in one paginated listing. Changed files of a commit are only
+ * available over REST as well.
+ */
+
+// Types
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<T> {
+  nodes: T[];
+  pageInfo: PageInfo;
+}
+
+interface GraphQLActor {
+  login: string;
+}
+
+interface GraphQLReview {
+  databaseId: number;
+  author: GraphQLActor | null;
+  state: string;
+  submittedAt: string | null;
+}
+
+interface GraphQLPullRequest {
+  number: number;
+  author: GraphQLActor | null;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  mergedAt: string | null;
+  labels: { nodes: { name: string }[] };
+  reviews: Connection<GraphQLReview>;
+}
+
+interface GraphQLIssue {
+  number: number;
+  author: GraphQLActor | null;
+  state: 'OPEN' | 'CLOSED';
+  createdAt: string;
+  updatedAt: string;
+  labels: { nodes: { name: string }[] };
+}
+
+interface GraphQLCommit {
+  oid: string;
+  message: string;
+  author: {
+    name: string | null;
+    email: string | null;
+    date: string | null;
+    user: GraphQLActor | null;
+  } | null;
+}
+
+interface GraphQLOrgRepo {
+  name: string;
+  description: string | null;
+  isArchived: boolean;
+  isFork: boolean;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+}
+
+interface RepositorySnapshot {
+  commits: CommitRecord[];
+  pullRequests: PullRequestRecord[];
+  issues: IssueRecord[];
+  reviews: ReviewRecord[];
+}
+
+const PULL_REQUESTS_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(first: 50, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          number
+          author { login }
+          state
+          createdAt
+          updatedAt
+          closedAt
+          mergedAt
+          labels(first: 20) { nodes { name } }
+          reviews(first: 100) {
+            pageInfo { hasNextPage endCursor }
+            nodes { databaseId author { login } state submittedAt }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const REVIEWS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviews(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { databaseId author { login } state submittedAt }
+        }
+      }
+    }
+  }
+`;
+
+const ISSUES_QUERY = `
+  query($owner: String!, $repo: String!, $since: DateTime!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      issues(first: 100, after: $cursor, filterBy: { since: $since }, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { number author { login } state createdAt updatedAt labels(first: 20) { nodes { name } } }
+      }
+    }
+  }
+`;
+
+const COMMITS_QUERY = `
+  query($owner: String!, $repo: String!, $since: GitTimestamp!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(first: 100, after: $cursor, since: $since) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                oid
+                message
+                author { name email date user { login } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ORG_REPOS_QUERY = `
+  query($org: String!, $cursor: String) {
+    organization(login: $org) {
+      repositories(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          description
+          isArchived
+          isFork
+          repositoryTopics(first: 20) { nodes { topic { name } } }
+        }
+      }
+    }
+  }
+`;
+
+function toUser(actor: GraphQLActor | null): GitHubUser | null {
+  return actor ? { login: actor.login } : null;
+}
+
+/**
+ * Live GitHub GraphQL API source
+ */
+export class GitHubGraphQLSource implements ContributionSource {
+  readonly name = 'github-graphql';
+  private octokit: Octokit;
+  private rest: GitHubRestSource;
+  private snapshots = new Map<string, Promise<RepositorySnapshot>>();
+
+  constructor(
+    token: string | undefined,
+    private options: Omit<GitHubClientOptions, 'httpCache'> = {}
+  ) {
+    this.octokit = createOctokit(token, options);
+    this.rest = new GitHubRestSource(token, options);
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    return (await this.getSnapshot(owner, repo, since)).commits;
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    return (await this.getSnapshot(owner, repo, since)).pullRequests;
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    return (await this.getSnapshot(owner, repo, since)).issues;
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    return (await this.getSnapshot(owner, repo, since)).reviews;
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    return this.rest.listReviewComments(owner, repo, since);
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    return this.rest.listIssueComments(owner, repo, since);
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    const repos: OrgRepoRecord[] = [];
+    let cursor: string | null = null;
+
+    while (true) {
+      const result: { organization: { repositories: Connection<GraphQLOrgRepo> } } =
+        await this.octokit.graphql(ORG_REPOS_QUERY, { org, cursor });
+      const page = result.organization.repositories;
+
+      for (const repo of page.nodes) {
+        repos.push({
+          name: repo.name,
+          description: repo.description,
+          archived: repo.isArchived,
+          fork: repo.isFork,
+          topics: repo.repositoryTopics.nodes.map(node => node.topic.name),
+        });
+      }
+
+      if (!page.pageInfo.hasNextPage) break;
+      cursor = page.pageInfo.endCursor;
+    }
+
+    return repos;
+  }
+
+  /**
+   * The tracker asks for all four record kinds at once, so the repository
+   * is fetched a single time and shared between the calls.
+   */
+  private getSnapshot(owner: string, repo: string, since: Date): Promise<RepositorySnapshot> {
+    const key = `${owner}/${repo}@${since.toISOString()}`;
+    let snapshot = this.snapshots.get(key);
+
+    if (!snapshot) {
+      snapshot = this.fetchSnapshot(owner, repo, since);
+      this.snapshots.set(key, snapshot);
+      // Allow a retry after a failure instead of caching the rejection
+      snapshot.catch(() => this.snapshots.delete(key));
+    }
+
+    return snapshot;
+  }
+
+  private async fetchSnapshot(owner: string, repo: string, since: Date): Promise<RepositorySnapshot> {
+    const { pullRequests, reviews } = await this.fetchPullRequests(owner, repo, since);
+    const issues = await this.fetchIssues(owner, repo, since);
+    const commits = await this.fetchCommits(owner, repo, since);
+
+    return { commits, pullRequests, issues, reviews };
+  }
+
+  private async fetchPullRequests(
+    owner: string,
+    repo: string,
+    since: Date
+  ): Promise<{ pullRequests: PullRequestRecord[]; reviews: ReviewRecord[] }> {
+    const pullRequests: PullRequestRecord[] = [];
+    const reviews: ReviewRecord[] = [];
+    let cursor: string | null = null;
+
+    while (true) {
+      const result: { repository: { pullRequests: Connection<GraphQLPullRequest> } } =
+        await this.octokit.graphql(PULL_REQUESTS_QUERY, { owner, repo, cursor });
+      const page = result.repository.pullRequests;
+
+      let foundOldPR = false;
+      for (const pr of page.nodes) {
+        if (new Date(pr.updatedAt) < since) {
+          foundOldPR = true;
+          break;
+        }
+
+        pullRequests.push({
+          number: pr.number,
+          user: toUser(pr.author),
+          state: pr.state === 'OPEN' ? 'open' : 'closed',
+          created_at: pr.createdAt,
+          updated_at: pr.updatedAt,
+          closed_at: pr.closedAt,
+          merged_at: pr.mergedAt,
+          labels: pr.labels.nodes.map(label => label.name),
+        });
+
+        const prReviews = [...pr.reviews.nodes];
+        if (pr.reviews.pageInfo.hasNextPage) {
+          prReviews.push(
+            ...(await this.fetchRemainingReviews(owner, repo, pr.number, pr.reviews.pageInfo.endCursor))
+          );
+        }
+
+        const pullRequestUrl = `https://api.github.com/repos/${owner}/${repo}/pulls/${pr.number}`;
+        for (const review of prReviews) {
+          reviews.push({
+            id: review.databaseId,
+            user: toUser(review.author),
+            state: review.state,
+            submitted_at: review.submittedAt ?? undefined,
+            pull_request_url: pullRequestUrl,
+          });
+        }
+      }
+
+      if (foundOldPR || !page.pageInfo.hasNextPage) break;
+      cursor = page.pageInfo.endCursor;
+    }
+
+    return { pullRequests, reviews };
+  }
+
+  private async fetchRemainingReviews(
+    owner: string,
+    repo: string,
+    number: number,
+    cursor: string | null
+  ): Promise<GraphQLReview[]> {
+    const reviews: GraphQLReview[] = [];
+
+    while (cursor) {
+      const result: { repository: { pullRequest: { reviews: Connection<GraphQLReview> } } } =
+        await this.octokit.graphql(REVIEWS_QUERY, { owner, repo, number, cursor });
+      const page = result.repository.pullRequest.reviews;
+
+      reviews.push(...page.nodes);
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    }
+
+    return reviews;
+  }
+
+  private async fetchIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    const issues: IssueRecord[] = [];
+    let cursor: string | null = null;
+
+    while (true) {
+      const result: { repository: { issues: Connection<GraphQLIssue> } } =
+        await this.octokit.graphql(ISSUES_QUERY, { owner, repo, since: since.toISOString(), cursor });
+      const page = result.repository.issues;
+
+      // GraphQL issues never include pull requests
+      for (const issue of page.nodes) {
+        issues.push({
+          number: issue.number,
+          user: toUser(issue.author),
+          state: issue.state.toLowerCase(),
+          created_at: issue.createdAt,
+          updated_at: issue.updatedAt,
+          labels: issue.labels.nodes.map(label => label.name),
+        });
+      }
+
+      if (!page.pageInfo.hasNextPage) break;
+      cursor = page.pageInfo.endCursor;
+    }
+
+    return issues;
+  }
+
+  private async fetchCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    const commits: CommitRecord[] = [];
+    let cursor: string | null = null;
+
+    while (true) {
+      const result: {
+        repository: { defaultBranchRef: { target: { history: Connection<GraphQLCommit> } } | null };
+      } = await this.octokit.graphql(COMMITS_QUERY, { owner, repo, since: since.toISOString(), cursor });
+
+      // Empty repositories have no default branch
+      const history = result.repository.defaultBranchRef?.target.history;
+      if (!history) break;
+
+      for (const commit of history.nodes) {
+        commits.push({
+          sha: commit.oid,
+          author: toUser(commit.author?.user ?? null),
+          commit: {
+            author: commit.author
+              ? {
+                  name: commit.author.name ?? undefined,
+                  email: commit.author.email ?? undefined,
+                  date: commit.author.date ?? undefined,
+                }
+              : null,
+            message: commit.message,
+          },
+          ...(this.options.commitFiles
+            ? { files: await this.rest.listCommitFiles(owner, repo, commit.oid) }
+            : {}),
+        });
+      }
+
+      if (!history.pageInfo.hasNextPage) break;
+      cursor = history.pageInfo.endCursor;
+    }
+
+    return commits;
+  }
+}
@@ -1,372 +1,335 @@
-import { Octokit } from '@octokit/rest';
-import fs from 'fs/promises';
 import path from 'path';
 import dotenv from 'dotenv';
+import {
+  ContributionSource,
+  FixtureSource,
+  GitHubRestSource,
+  RecordingSource,
+} from './contribution-sources.js';
+import { AuthorResolver } from './author-resolution.js';
+import { CommitClassifier } from './commit-classification.js';
+import {
+  commitEvents,
+  issueCommentEvent,
+  issueEvent,
+  pullRequestEvent,
+  reviewCommentEvent,
+  reviewEvent,
+} from './contribution-events.js';
+import {
+  IncompleteRepo,
+  RepoEvents,
+  buildContributorsFile,
+  printContributorsSummary,
+  writeContributorsFile,
+  DEFAULT_CONTRIBUTORS_PATH,
+} from './contributors-file.js';
+import { DEFAULT_EVENT_STORE_PATH, EventStore } from './event-store.js';
+import { GiteaSource, GitLabSource } from './forge-sources.js';
+import { GitHubGraphQLSource } from './github-graphql-source.js';
+import { IdentityResolver } from './identities.js';
+import { resolveTrackedRepos } from './org-repos.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { archiveRun } from './run-history.js';
+import { DEFAULT_CACHE_DIR, HttpCache, IncrementalSource } from './tracker-cache.js';
+import { ContributionEvent } from './scoring.js';
+import { Config, TrackedRepo, loadConfig, repoHost, repoName } from './tracker-config.js';
+import { monthsWindow, parseWindow } from './tracking-window.js';
+import { loadWalletMappings } from './wallet-mappings.js';
+import { printWalletIssues, validateWallets } from './wallet-validation.js';
 
 dotenv.config({ path: '../.env' });
 
 // Types
-interface TrackedRepo {
-  owner: string;
-  repo: string;
-  description: string;
+interface TrackerOptions {
+  source: 'github' | 'graphql' | 'fixtures';
+  fixturesDir: string;
+  recordDir: string | null;
+  cacheDir: string;
+  full: boolean;
+  storePath: string;
+  archive: boolean;
+  window: { from?: string; to?: string; epoch?: string };
 }
 
-interface ContributorScore {
-  github: string;
-  wallet: string | null;
-  commits: number;
-  prs: number;
-  issues: number;
-  reviews: number;
-  totalScore: number;
-  lastUpdated: string;
-  eligible: boolean;
-  repos: string[];
-}
+const DEFAULT_FIXTURES_DIR = '../data/fixtures/github';
 
-interface Config {
-  trackedRepos: TrackedRepo[];
-  scoring: {
-    commitWeight: number;
-    prWeight: number;
-    issueWeight: number;
-    reviewWeight: number;
-  };
-  timeFrame: {
-    months: number;
-    description: string;
+// Parse command line options
+function parseArgs(): TrackerOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const source = getArg('source') || 'github';
+  if (source !== 'github' && source !== 'graphql' && source !== 'fixtures') {
+    throw new Error(`Unknown source "${source}" (expected github, graphql or fixtures)`);
+  }
+
+  return {
+    source,
+    fixturesDir: path.resolve(getArg('fixtures') || DEFAULT_FIXTURES_DIR),
+    recordDir: getArg('record') ? path.resolve(getArg('record')!) : null,
+    cacheDir: path.resolve(getArg('cache') || DEFAULT_CACHE_DIR),
+    full: args.includes('--full'),
+    storePath: path.resolve(getArg('store') || DEFAULT_EVENT_STORE_PATH),
+    archive: !args.includes('--no-archive'),
+    window: { from: getArg('from'), to: getArg('to'), epoch: getArg('epoch') },
   };
-  minScore: number;
 }
 
-// Initialize Octokit with GitHub token
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
+// Create the contribution source selected on the command line
+async function createSource(options: TrackerOptions, config: Config): Promise<ContributionSource> {
+  const scheduler = new RequestScheduler(config.requests);
+  const commitFiles = config.commitClassification !== undefined;
+
+  let source: ContributionSource;
+  switch (options.source) {
+    case 'fixtures':
+      source = await FixtureSource.open(options.fixturesDir);
+      break;
+    case 'graphql':
+      source = new GitHubGraphQLSource(process.env.GITHUB_TOKEN, { scheduler, commitFiles });
+      break;
+    default:
+      source = new GitHubRestSource(process.env.GITHUB_TOKEN, {
+        httpCache: await HttpCache.open(path.join(options.cacheDir, 'http-cache.json'), options.full),
+        scheduler,
+        commitFiles,
+      });
+  }
+
+  // Live sources only fetch what changed since the previous run
+  if (options.source !== 'fixtures') {
+    source = await IncrementalSource.open(source, path.join(options.cacheDir, 'state.json'), options.full);
+  }
 
-// Load configuration
-async function loadConfig(): Promise<Config> {
-  const configPath = path.join(process.cwd(), 'config.json');
-  const configData = await fs.readFile(configPath, 'utf-8');
-  return JSON.parse(configData);
+  return options.recordDir ? new RecordingSource(source, options.recordDir) : source;
 }
 
-// Calculate date for time frame
-function getStartDate(months: number): Date {
-  const date = new Date();
-  date.setMonth(date.getMonth() - months);
-  return date;
+// Create one source per GitLab/Gitea host among the tracked repos
+async function createPlatformSources(
+  options: TrackerOptions,
+  config: Config,
+  trackedRepos: TrackedRepo[],
+  referenceDate: Date
+): Promise<Map<string, ContributionSource>> {
+  const commitFiles = config.commitClassification !== undefined;
+  const sources = new Map<string, ContributionSource>();
+
+  for (const repo of trackedRepos) {
+    const platform = repo.platform ?? 'github';
+    const host = repoHost(repo);
+    if (platform === 'github' || sources.has(host)) continue;
+
+    // Recordings and fixtures of other hosts live in a subdirectory per host
+    let source: ContributionSource;
+    if (options.source === 'fixtures') {
+      source = new FixtureSource(path.join(options.fixturesDir, host), referenceDate);
+    } else {
+      const scheduler = new RequestScheduler(config.requests);
+      source =
+        platform === 'gitlab'
+          ? new GitLabSource(host, process.env.GITLAB_TOKEN, { scheduler, commitFiles })
+          : new GiteaSource(host, process.env.GITEA_TOKEN, { scheduler, commitFiles });
+      const statePath = path.join(options.cacheDir, `state-${host}.json`);
+      source = await IncrementalSource.open(source, statePath, options.full);
+    }
+
+    if (options.recordDir) {
+      source = new RecordingSource(source, path.join(options.recordDir, host));
+    }
+    sources.set(host, source);
+  }
+
+  return sources;
 }
 
 // Fetch commits for a repository
 async function fetchCommits(
-  owner: string,
-  repo: string,
+  source: ContributionSource,
+  resolver: AuthorResolver,
+  classifier: CommitClassifier | null,
+  repo: TrackedRepo,
   since: Date
-): Promise<Map<string, number>> {
-  console.log(`  📦 Fetching commits from ${owner}/${repo}...`);
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`  📦 Fetching commits from ${name}...`);
   
-  const commitCounts = new Map<string, number>();
-  let page = 1;
-  const perPage = 100;
+  const events: ContributionEvent[] = [];
 
   try {
-    while (true) {
-      const { data: commits } = await octokit.repos.listCommits({
-        owner,
-        repo,
-        since: since.toISOString(),
-        per_page: perPage,
-        page,
-      });
-
-      if (commits.length === 0) break;
-
-      for (const commit of commits) {
-        const author = commit.author?.login;
-        if (author) {
-          commitCounts.set(author, (commitCounts.get(author) || 0) + 1);
-        }
-      }
-
-      // Check if we have more pages
-      if (commits.length < perPage) break;
-      page++;
-      
-      // Rate limiting delay
-      await sleep(100);
-    }
+    const commits = await source.listCommits(repo.owner, repo.repo, since);
+    const credits = resolver.creditCommits(commits, name);
+    events.push(...commitEvents(credits, classifier, name, since));
   } catch (error: any) {
-    console.error(`  ❌ Error fetching commits: ${error.message}`);
+    console.error(`  ❌ Error fetching commits from ${name}: ${error.message}`);
+    throw error;
   }
 
-  return commitCounts;
+  return events;
 }
 
-// Fetch pull requests for a repository
+// Fetch pull requests for a repository, tagged with their outcome
 async function fetchPullRequests(
-  owner: string,
-  repo: string,
+  source: ContributionSource,
+  repo: TrackedRepo,
   since: Date
-): Promise<Map<string, number>> {
-  console.log(`  🔀 Fetching pull requests from ${owner}/${repo}...`);
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`  🔀 Fetching pull requests from ${name}...`);
   
-  const prCounts = new Map<string, number>();
-  let page = 1;
-  const perPage = 100;
+  const events: ContributionEvent[] = [];
 
   try {
-    while (true) {
-      const { data: prs } = await octokit.pulls.list({
-        owner,
-        repo,
-        state: 'all',
-        sort: 'updated',
-        direction: 'desc',
-        per_page: perPage,
-        page,
-      });
+    // Every PR created or merged in the window was also updated in it
+    const prs = await source.listPullRequests(repo.owner, repo.repo, since);
 
-      if (prs.length === 0) break;
-
-      let foundOldPR = false;
-      for (const pr of prs) {
-        const updatedAt = new Date(pr.updated_at);
-        if (updatedAt < since) {
-          foundOldPR = true;
-          break;
-        }
-
-        const author = pr.user?.login;
-        if (author) {
-          prCounts.set(author, (prCounts.get(author) || 0) + 1);
-        }
-      }
-
-      if (foundOldPR || prs.length < perPage) break;
-      page++;
-      
-      await sleep(100);
+    for (const pr of prs) {
+      const event = pullRequestEvent(pr, name);
+      if (event) events.push(event);
     }
   } catch (error: any) {
-    console.error(`  ❌ Error fetching PRs: ${error.message}`);
+    console.error(`  ❌ Error fetching PRs from ${name}: ${error.message}`);
+    throw error;
   }
 
-  return prCounts;
+  return events;
 }
 
 // Fetch issues for a repository
 async function fetchIssues(
-  owner: string,
-  repo: string,
+  source: ContributionSource,
+  repo: TrackedRepo,
   since: Date
-): Promise<Map<string, number>> {
-  console.log(`  🐛 Fetching issues from ${owner}/${repo}...`);
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`  🐛 Fetching issues from ${name}...`);
   
-  const issueCounts = new Map<string, number>();
-  let page = 1;
-  const perPage = 100;
+  const events: ContributionEvent[] = [];
 
   try {
-    while (true) {
-      const { data: issues } = await octokit.issues.listForRepo({
-        owner,
-        repo,
-        state: 'all',
-        sort: 'updated',
-        direction: 'desc',
-        since: since.toISOString(),
-        per_page: perPage,
-        page,
-      });
-
-      if (issues.length === 0) break;
+    const issues = await source.listIssues(repo.owner, repo.repo, since);
 
-      for (const issue of issues) {
-        // Skip pull requests (they also appear in issues)
-        if (issue.pull_request) continue;
-
-        const author = issue.user?.login;
-        if (author) {
-          issueCounts.set(author, (issueCounts.get(author) || 0) + 1);
-        }
-      }
-
-      if (issues.length < perPage) break;
-      page++;
-      
-      await sleep(100);
+    for (const issue of issues) {
+      // Pull requests also appear in issues and are skipped
+      const event = issueEvent(issue, name);
+      if (event) events.push(event);
     }
   } catch (error: any) {
-    console.error(`  ❌ Error fetching issues: ${error.message}`);
+    console.error(`  ❌ Error fetching issues from ${name}: ${error.message}`);
+    throw error;
   }
 
-  return issueCounts;
+  return events;
 }
 
 // Fetch PR reviews for a repository
 async function fetchReviews(
-  owner: string,
-  repo: string,
+  source: ContributionSource,
+  repo: TrackedRepo,
   since: Date
-): Promise<Map<string, number>> {
-  console.log(`  👀 Fetching reviews from ${owner}/${repo}...`);
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`  👀 Fetching reviews from ${name}...`);
   
-  const reviewCounts = new Map<string, number>();
-  let page = 1;
-  const perPage = 100;
+  const events: ContributionEvent[] = [];
 
   try {
-    // First get PRs
-    const { data: prs } = await octokit.pulls.list({
-      owner,
-      repo,
-      state: 'all',
-      sort: 'updated',
-      direction: 'desc',
-      per_page: 30, // Limit to recent PRs for reviews
-      page: 1,
-    });
+    const reviews = await source.listReviews(repo.owner, repo.repo, since);
 
-    for (const pr of prs) {
-      const updatedAt = new Date(pr.updated_at);
-      if (updatedAt < since) continue;
-
-      try {
-        const { data: reviews } = await octokit.pulls.listReviews({
-          owner,
-          repo,
-          pull_number: pr.number,
-        });
-
-        for (const review of reviews) {
-          const reviewer = review.user?.login;
-          if (reviewer && new Date(review.submitted_at || '') >= since) {
-            reviewCounts.set(reviewer, (reviewCounts.get(reviewer) || 0) + 1);
-          }
-        }
-        
-        await sleep(100);
-      } catch (error: any) {
-        // Skip if we can't fetch reviews for this PR
-        continue;
-      }
+    for (const review of reviews) {
+      const event = reviewEvent(review, name);
+      if (event && new Date(event.timestamp) >= since) events.push(event);
     }
   } catch (error: any) {
-    console.error(`  ❌ Error fetching reviews: ${error.message}`);
+    console.error(`  ❌ Error fetching reviews from ${name}: ${error.message}`);
+    throw error;
   }
 
-  return reviewCounts;
+  return events;
 }
 
-// Process a single repository
-async function processRepository(
+// Fetch inline review comments for a repository
+async function fetchReviewComments(
+  source: ContributionSource,
   repo: TrackedRepo,
-  since: Date,
-  scoring: Config['scoring']
-): Promise<Map<string, Partial<ContributorScore>>> {
-  console.log(`\n📊 Processing ${repo.owner}/${repo.repo}...`);
+  since: Date
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`  🔍 Fetching review comments from ${name}...`);
   
-  const contributors = new Map<string, Partial<ContributorScore>>();
-
-  // Fetch all contribution types
-  const [commits, prs, issues, reviews] = await Promise.all([
-    fetchCommits(repo.owner, repo.repo, since),
-    fetchPullRequests(repo.owner, repo.repo, since),
-    fetchIssues(repo.owner, repo.repo, since),
-    fetchReviews(repo.owner, repo.repo, since),
-  ]);
-
-  // Combine all contributors
-  const allContributors = new Set([
-    ...commits.keys(),
-    ...prs.keys(),
-    ...issues.keys(),
-    ...reviews.keys(),
-  ]);
-
-  for (const github of allContributors) {
-    const commitCount = commits.get(github) || 0;
-    const prCount = prs.get(github) || 0;
-    const issueCount = issues.get(github) || 0;
-    const reviewCount = reviews.get(github) || 0;
-
-    const score =
-      commitCount * scoring.commitWeight +
-      prCount * scoring.prWeight +
-      issueCount * scoring.issueWeight +
-      reviewCount * scoring.reviewWeight;
-
-    contributors.set(github, {
-      github,
-      commits: commitCount,
-      prs: prCount,
-      issues: issueCount,
-      reviews: reviewCount,
-      totalScore: score,
-      repos: [`${repo.owner}/${repo.repo}`],
-    });
-  }
+  const events: ContributionEvent[] = [];
 
-  console.log(`  ✅ Found ${contributors.size} contributors`);
-  return contributors;
-}
+  try {
+    const comments = await source.listReviewComments(repo.owner, repo.repo, since);
 
-// Merge contributors from multiple repositories
-function mergeContributors(
-  allContributors: Map<string, Partial<ContributorScore>>[]
-): Map<string, ContributorScore> {
-  const merged = new Map<string, ContributorScore>();
-
-  for (const repoContributors of allContributors) {
-    for (const [github, data] of repoContributors) {
-      const existing = merged.get(github);
-
-      if (existing) {
-        // Merge data
-        existing.commits += data.commits || 0;
-        existing.prs += data.prs || 0;
-        existing.issues += data.issues || 0;
-        existing.reviews += data.reviews || 0;
-        existing.totalScore += data.totalScore || 0;
-        existing.repos.push(...(data.repos || []));
-      } else {
-        // New contributor
-        merged.set(github, {
-          github,
-          wallet: null,
-          commits: data.commits || 0,
-          prs: data.prs || 0,
-          issues: data.issues || 0,
-          reviews: data.reviews || 0,
-          totalScore: data.totalScore || 0,
-          lastUpdated: new Date().toISOString(),
-          eligible: false,
-          repos: data.repos || [],
-        });
-      }
+    for (const comment of comments) {
+      const event = reviewCommentEvent(comment, name);
+      if (event) events.push(event);
     }
+  } catch (error: any) {
+    console.error(`  ❌ Error fetching review comments from ${name}: ${error.message}`);
+    throw error;
   }
 
-  return merged;
+  return events;
 }
 
-// Load existing wallet mappings (if any)
-async function loadWalletMappings(): Promise<Map<string, string>> {
+// Fetch issue and PR discussion comments for a repository
+async function fetchIssueComments(
+  source: ContributionSource,
+  repo: TrackedRepo,
+  since: Date
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`  💬 Fetching discussion comments from ${name}...`);
+  
+  const events: ContributionEvent[] = [];
+
   try {
-    const mappingPath = path.join(process.cwd(), '../data/wallet-mappings.json');
-    const data = await fs.readFile(mappingPath, 'utf-8');
-    const mappings = JSON.parse(data);
-    return new Map(Object.entries(mappings));
-  } catch {
-    return new Map();
+    const comments = await source.listIssueComments(repo.owner, repo.repo, since);
+
+    for (const comment of comments) {
+      const event = issueCommentEvent(comment, name);
+      if (event) events.push(event);
+    }
+  } catch (error: any) {
+    console.error(`  ❌ Error fetching comments from ${name}: ${error.message}`);
+    throw error;
   }
+
+  return events;
 }
 
-// Sleep utility
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// Fetch every contribution type of a single repository
+async function processRepository(
+  source: ContributionSource,
+  resolver: AuthorResolver,
+  repo: TrackedRepo,
+  since: Date,
+  config: Config
+): Promise<ContributionEvent[]> {
+  const name = repoName(repo);
+  console.log(`\n📊 Processing ${name}...`);
+
+  const classifier = config.commitClassification
+    ? new CommitClassifier(config.commitClassification, repo.commitPaths)
+    : null;
+
+  const events = (
+    await Promise.all([
+      fetchCommits(source, resolver, classifier, repo, since),
+      fetchPullRequests(source, repo, since),
+      fetchIssues(source, repo, since),
+      fetchReviews(source, repo, since),
+      fetchReviewComments(source, repo, since),
+      fetchIssueComments(source, repo, since),
+    ])
+  ).flat();
+
+  const logins = new Set(events.map(event => event.login));
+  console.log(`  ✅ Found ${logins.size} contributors in ${name}`);
+  return events;
 }
 
 // Main function
@@ -374,14 +337,21 @@ async function main() {
   console.log('🚀 Starting GitHub Contributor Tracker\n');
 
   // Load configuration
+  const options = parseArgs();
   const config = await loadConfig();
-  const since = getStartDate(config.timeFrame.months);
+  const source = await createSource(options, config);
+  const now = source.referenceDate ?? new Date();
+  const window = parseWindow(options.window, now) ?? monthsWindow(config.timeFrame.months, now);
   
-  console.log(`📅 Tracking contributions since: ${since.toISOString()}`);
-  console.log(`📚 Tracking ${config.trackedRepos.length} repositories\n`);
+  console.log(`🔌 Contribution source: ${source.name}`);
+  console.log(
+    `📅 Tracking contributions from ${window.from.toISOString()} to ${window.to.toISOString()}` +
+      (window.epoch !== undefined ? ` (epoch ${window.epoch})` : '') +
+      '\n'
+  );
 
   // Check for GitHub token
-  if (!process.env.GITHUB_TOKEN) {
+  if (options.source !== 'fixtures' && !process.env.GITHUB_TOKEN) {
     console.error('❌ GITHUB_TOKEN not found in environment variables');
     console.log('\n💡 To create a GitHub token:');
     console.log('   1. Go to https://github.com/settings/tokens');
@@ -391,93 +361,129 @@ async function main() {
     process.exit(1);
   }
 
-  // Load existing wallet mappings
-  const walletMappings = await loadWalletMappings();
-  console.log(`💰 Loaded ${walletMappings.size} existing wallet mappings\n`);
-
-  // Process all repositories
-  const allContributors: Map<string, Partial<ContributorScore>>[] = [];
-
-  for (const repo of config.trackedRepos) {
-    try {
-      const contributors = await processRepository(repo, since, config.scoring);
-      allContributors.push(contributors);
-      await sleep(500); // Rate limiting between repos
-    } catch (error: any) {
-      console.error(`❌ Failed to process ${repo.owner}/${repo.repo}: ${error.message}`);
-    }
+  // Load commit email mappings (fixtures bring their own)
+  const resolver = await AuthorResolver.load(
+    options.source === 'fixtures'
+      ? path.join(options.fixturesDir, 'email-mappings.json')
+      : path.join(process.cwd(), '../data/email-mappings.json'),
+    config.scoring.coAuthorShare
+  );
+  console.log(`📧 Loaded ${resolver.mappingCount} commit email mappings`);
+
+  // Load identity aliases
+  const identities = await IdentityResolver.load();
+  console.log(`🔗 Loaded ${identities.identityCount} contributor identities`);
+
+  // Load and validate wallet mappings
+  const walletMappings = await loadWalletMappings(config, now);
+  const walletValidation = await validateWallets(
+    walletMappings.wallets,
+    config,
+    identities,
+    window.epoch ?? null
+  );
+  console.log(
+    `💰 Loaded ${walletValidation.wallets.size} valid wallet mappings` +
+      (walletMappings.pending.length > 0 ? `, ${walletMappings.pending.length} changes pending` : '')
+  );
+  printWalletIssues(walletValidation);
+  console.log();
+
+  // Expand tracked orgs into repositories
+  const { repos: trackedRepos, resolved: resolvedRepos, failedOrgs } =
+    await resolveTrackedRepos(config, source);
+  console.log(`📚 Tracking ${trackedRepos.length} repositories`);
+
+  // GitLab and Gitea repositories are fetched from their own hosts
+  const platformSources = await createPlatformSources(options, config, trackedRepos, now);
+  for (const platformSource of platformSources.values()) {
+    console.log(`🔌 Contribution source: ${platformSource.name}`);
   }
+  const sourceFor = (repo: TrackedRepo) => platformSources.get(repoHost(repo)) ?? source;
+
+  // Process all repositories (the request scheduler caps concurrency)
+  const repoEvents: RepoEvents[] = [];
+  const incompleteRepos: IncompleteRepo[] = failedOrgs.map(f => ({
+    repo: `org:${f.org}`,
+    error: f.error,
+  }));
+
+  const results = await Promise.allSettled(
+    trackedRepos.map(repo => processRepository(sourceFor(repo), resolver, repo, window.from, config))
+  );
+
+  results.forEach((result, i) => {
+    const repo = trackedRepos[i];
+    if (result.status === 'fulfilled') {
+      repoEvents.push({ repo, events: result.value });
+    } else {
+      console.error(`❌ Failed to process ${repoName(repo)}: ${result.reason.message}`);
+      incompleteRepos.push({ repo: repoName(repo), error: result.reason.message });
+    }
+  });
 
-  // Merge all contributors
-  console.log('\n🔄 Merging contributor data...');
-  const mergedContributors = mergeContributors(allContributors);
+  // Persist cursors and caches for the next run
+  await source.close?.();
+  await Promise.all([...platformSources.values()].map(platformSource => platformSource.close?.()));
 
-  // Apply wallet mappings and eligibility
-  for (const [github, data] of mergedContributors) {
-    data.wallet = walletMappings.get(github) || null;
-    data.eligible = data.totalScore >= config.minScore && data.wallet !== null;
+  // Keep the raw events so the run can be rescored offline
+  const store = await EventStore.open(options.storePath);
+  for (const { repo, events } of repoEvents) {
+    store.record(repo, events, window.from, now);
   }
+  store.setUnresolvedAuthors(resolver.unresolved);
+  await store.save(now);
 
-  // Sort by score
-  const sortedContributors = Array.from(mergedContributors.values())
-    .sort((a, b) => b.totalScore - a.totalScore);
-
-  // Generate statistics
-  const stats = {
-    totalContributors: sortedContributors.length,
-    eligibleContributors: sortedContributors.filter(c => c.eligible).length,
-    contributorsWithWallet: sortedContributors.filter(c => c.wallet !== null).length,
-    contributorsMeetingMinScore: sortedContributors.filter(c => c.totalScore >= config.minScore).length,
-    totalCommits: sortedContributors.reduce((sum, c) => sum + c.commits, 0),
-    totalPRs: sortedContributors.reduce((sum, c) => sum + c.prs, 0),
-    totalIssues: sortedContributors.reduce((sum, c) => sum + c.issues, 0),
-    totalReviews: sortedContributors.reduce((sum, c) => sum + c.reviews, 0),
-    topContributors: sortedContributors.slice(0, 10).map(c => ({
-      github: c.github,
-      score: c.totalScore,
-      eligible: c.eligible,
-    })),
-  };
-
-  // Save results
-  const outputPath = path.join(process.cwd(), '../data/contributors.json');
-  const output = {
-    lastUpdated: new Date().toISOString(),
-    config: {
-      timeFrame: config.timeFrame,
-      minScore: config.minScore,
-      trackedRepos: config.trackedRepos.length,
-    },
-    stats,
-    contributors: sortedContributors,
-  };
+  // Score, merge and apply wallet mappings
+  console.log('\n🔄 Merging contributor data...');
+  const output = buildContributorsFile({
+    config,
+    window,
+    now,
+    trackedRepos,
+    repos: repoEvents,
+    resolvedRepos,
+    incompleteRepos,
+    walletMappings: walletValidation.wallets,
+    walletIssues: [...walletValidation.rejected, ...walletValidation.conflicts],
+    pendingWalletChanges: walletMappings.pending,
+    identities,
+    unresolvedAuthors: resolver.unresolved,
+  });
 
-  await fs.writeFile(outputPath, JSON.stringify(output, null, 2));
+  await writeContributorsFile(output);
+  const archivePath = options.archive ? await archiveRun(output) : null;
 
   // Print summary
-  console.log('\n✅ Tracking complete!');
-  console.log('\n📊 STATISTICS:');
-  console.log(`   Total Contributors: ${stats.totalContributors}`);
-  console.log(`   Eligible Contributors: ${stats.eligibleContributors}`);
-  console.log(`   Contributors with Wallet: ${stats.contributorsWithWallet}`);
-  console.log(`   Meeting Min Score (${config.minScore}): ${stats.contributorsMeetingMinScore}`);
-  console.log(`\n   Total Commits: ${stats.totalCommits}`);
-  console.log(`   Total PRs: ${stats.totalPRs}`);
-  console.log(`   Total Issues: ${stats.totalIssues}`);
-  console.log(`   Total Reviews: ${stats.totalReviews}`);
-
-  console.log('\n🏆 TOP 10 CONTRIBUTORS:');
-  stats.topContributors.forEach((c, i) => {
-    const badge = c.eligible ? '✅' : '❌';
-    console.log(`   ${i + 1}. ${badge} ${c.github} - Score: ${c.score}`);
-  });
+  if (incompleteRepos.length > 0) {
+    console.log('\n⚠️  Tracking INCOMPLETE - scores below are undercounted!');
+    incompleteRepos.forEach(r => console.log(`   ❌ ${r.repo}: ${r.error}`));
+  } else {
+    console.log('\n✅ Tracking complete!');
+  }
+  printContributorsSummary(output);
+
+  console.log(`\n💾 Results saved to: ${DEFAULT_CONTRIBUTORS_PATH}`);
+  console.log(`🗃️  ${store.size} events stored in: ${store.path}`);
+  if (archivePath) {
+    console.log(`🗄️  Run archived to: ${archivePath} (compare runs: npm run diff)`);
+  }
+  if (options.recordDir) {
+    console.log(`📼 API responses recorded to: ${options.recordDir}`);
+  }
+  if (incompleteRepos.length > 0) {
+    console.log('\n💡 Re-run npm run track once the failing repositories are reachable.');
+    console.log('   Downstream scripts refuse incomplete data.');
+    process.exitCode = 1;
+    return;
+  }
 
-  console.log(`\n💾 Results saved to: ${outputPath}`);
   console.log('\n💡 NEXT STEPS:');
   console.log('   1. Review the contributors list');
-  console.log('   2. Add wallet mappings to data/wallet-mappings.json');
+  console.log('   2. Verify wallet claims: npm run claim-wallet -- --scan');
   console.log('   3. Run: npm run generate-merkle');
+  console.log('   (Try other weights without refetching: npm run rescore -- --set=scoring.prWeight=5)');
 }
 
 // Run the script
-main().catch(console.error);
\ No newline at end of file
+main().catch(console.error);
@@ -2,6 +2,8 @@ import { ethers } from 'ethers';
 import fs from 'fs/promises';
 import path from 'path';
 import dotenv from 'dotenv';
+import { loadConfig } from './tracker-config.js';
+import { loadWalletMappings } from './wallet-mappings.js';
 
 dotenv.config({ path: '../.env' });
 
@@ -288,6 +290,31 @@ class HealthChecker {
     }
   }
 
+  async checkWalletChanges(): Promise<void> {
+    try {
+      const { wallets, pending } = await loadWalletMappings(await loadConfig());
+
+      if (pending.length > 0) {
+        this.addResult(
+          'Wallet Changes',
+          'WARNING',
+          `${pending.length} wallet change(s) pending - confirm them with the contributors before they apply`,
+          {
+            pending: pending.map(
+              c => `${c.login}: ${c.from ?? 'none'} → ${c.to ?? 'removed'} from ${c.effectiveAt}`
+            ),
+          }
+        );
+      } else {
+        this.addResult('Wallet Changes', 'OK', `${wallets.size} wallets in effect, no changes pending`);
+      }
+    } catch (error) {
+      this.addResult('Wallet Changes', 'WARNING', 'Could not load the wallet log', {
+        error: String(error),
+      });
+    }
+  }
+
   async checkEnvironmentVariables(): Promise<void> {
     const required = [
       'ETH_RPC_URL',
@@ -337,6 +364,7 @@ class HealthChecker {
     await this.checkNetwork();
     await this.checkMerkleTreeData();
     await this.checkGitHubData();
+    await this.checkWalletChanges();
 
     const config = await this.loadDeploymentConfig();
 
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * CONTRIBUTOR IDENTITIES
+ *
+ * Groups several logins (e.g. a work and a personal account, or accounts
+ * on GitLab and Gitea hosts, written `username@host`) under one canonical
+ * contributor, maintained in data/identities.json:
+ *
+ *   { "alice": ["alice-at-work", "alice@gitlab.com", "alice@codeberg.org"] }
+ *
+ * The canonical login is the one scores, wallets and Merkle leaves are
+ * keyed by. Logins are matched case-insensitively.
+ */
+
+export const DEFAULT_IDENTITIES_PATH = path.join(process.cwd(), '../data/identities.json');
+
+export class IdentityResolver {
+  private constructor(
+    /** lowercased login → canonical login */
+    private canonicalByLogin: Map<string, string>,
+    /** canonical login → its aliases, in file order */
+    private aliasesByCanonical: Map<string, string[]>
+  ) {}
+
+  /**
+   * Load the identity file (a missing file means no aliases)
+   *
+   * Throws when a login is claimed by two identities, since folding it
+   * into either one would silently move points between people.
+   */
+  static async load(filePath = DEFAULT_IDENTITIES_PATH): Promise<IdentityResolver> {
+    let identities: Record<string, string[]> = {};
+    try {
+      const data = await fs.readFile(filePath, 'utf-8');
+      identities = data.trim() ? JSON.parse(data) : {};
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Could not read ${filePath}: ${error.message}`);
+      }
+    }
+
+    const canonicalByLogin = new Map<string, string>();
+    const aliasesByCanonical = new Map<string, string[]>();
+    const claim = (login: string, canonical: string) => {
+      const existing = canonicalByLogin.get(login.toLowerCase());
+      if (existing && existing !== canonical) {
+        throw new Error(`${filePath}: ${login} is listed under both ${existing} and ${canonical}`);
+      }
+      canonicalByLogin.set(login.toLowerCase(), canonical);
+    };
+
+    for (const [canonical, aliases] of Object.entries(identities)) {
+      claim(canonical, canonical);
+      for (const alias of aliases) {
+        claim(alias, canonical);
+      }
+      aliasesByCanonical.set(canonical, aliases);
+    }
+
+    return new IdentityResolver(canonicalByLogin, aliasesByCanonical);
+  }
+
+  get identityCount(): number {
+    return this.aliasesByCanonical.size;
+  }
+
+  /**
+   * Canonical login for any login (itself when it isn't aliased)
+   */
+  canonical(login: string): string {
+    return this.canonicalByLogin.get(login.toLowerCase()) ?? login;
+  }
+
+  /**
+   * Every login of an identity, canonical first
+   */
+  logins(canonical: string): string[] {
+    return [canonical, ...(this.aliasesByCanonical.get(canonical) || [])];
+  }
+}
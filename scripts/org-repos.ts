@@ -0,0 +1,123 @@
+import { ContributionSource, OrgRepoRecord } from './contribution-sources.js';
+import { Config, TrackedOrg, TrackedRepo, repoName } from './tracker-config.js';
+
+/**
+ * ORGANIZATION REPOSITORIES
+ *
+ * Expands `trackedOrgs` into concrete repositories so whole ecosystems
+ * (OpenZeppelin, foundry-rs, aave, ...) are tracked without listing each
+ * repo by hand. Explicit `trackedRepos` entries always win over repos
+ * found through an org.
+ */
+
+// Types
+export interface ResolvedRepo {
+  repo: string;
+  /** `config` or `org:<name>` */
+  origin: string;
+}
+
+export interface RepoResolution {
+  repos: TrackedRepo[];
+  resolved: ResolvedRepo[];
+  failedOrgs: { org: string; error: string }[];
+}
+
+/**
+ * Convert a `*` / `?` glob into an anchored, case-insensitive RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+function matchesAny(name: string, globs: string[]): boolean {
+  return globs.some(glob => globToRegExp(glob).test(name));
+}
+
+/**
+ * Apply an org's filters to its repository list
+ */
+export function filterOrgRepos(org: TrackedOrg, repos: OrgRepoRecord[]): OrgRepoRecord[] {
+  const include = org.include && org.include.length > 0 ? org.include : ['*'];
+  const topics = (org.topics || []).map(topic => topic.toLowerCase());
+
+  return repos.filter(repo => {
+    if (repo.archived && !org.includeArchived) return false;
+    if (repo.fork && !org.includeForks) return false;
+    if (!matchesAny(repo.name, include)) return false;
+    if (org.exclude && matchesAny(repo.name, org.exclude)) return false;
+    if (topics.length > 0 && !repo.topics.some(topic => topics.includes(topic.toLowerCase()))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Combine explicit repos with everything matched in the tracked orgs
+ */
+export async function resolveTrackedRepos(
+  config: Config,
+  source: ContributionSource
+): Promise<RepoResolution> {
+  const repos: TrackedRepo[] = [...config.trackedRepos];
+  const resolved: ResolvedRepo[] = config.trackedRepos.map(r => ({
+    repo: repoName(r),
+    origin: 'config',
+  }));
+  const failedOrgs: RepoResolution['failedOrgs'] = [];
+  const seen = new Set(resolved.map(r => r.repo.toLowerCase()));
+
+  for (const org of config.trackedOrgs || []) {
+    let orgRepos: OrgRepoRecord[];
+    try {
+      orgRepos = await source.listOrgRepos(org.org);
+    } catch (error: any) {
+      console.error(`❌ Failed to list repositories of ${org.org}: ${error.message}`);
+      failedOrgs.push({ org: org.org, error: error.message });
+      continue;
+    }
+
+    const matched = filterOrgRepos(org, orgRepos).sort((a, b) => a.name.localeCompare(b.name));
+    console.log(`🏢 ${org.org}: tracking ${matched.length} of ${orgRepos.length} repositories`);
+
+    for (const repo of matched) {
+      const fullName = `${org.org}/${repo.name}`;
+      if (seen.has(fullName.toLowerCase())) continue;
+      seen.add(fullName.toLowerCase());
+
+      repos.push({
+        owner: org.org,
+        repo: repo.name,
+        description: repo.description || '',
+        ...(org.weight !== undefined ? { weight: org.weight } : {}),
+        ...(org.normalization ? { normalization: org.normalization } : {}),
+      });
+      resolved.push({ repo: fullName, origin: `org:${org.org}` });
+    }
+  }
+
+  return { repos, resolved, failedOrgs };
+}
+
+/**
+ * Tracked repo entry for a single repository, or null if it isn't tracked
+ * (for event-driven callers that see one repository at a time)
+ */
+export function findTrackedRepo(config: Config, owner: string, repo: OrgRepoRecord): TrackedRepo | null {
+  const fullName = `${owner}/${repo.name}`.toLowerCase();
+  const explicit = config.trackedRepos.find(r => repoName(r).toLowerCase() === fullName);
+  if (explicit) return explicit;
+
+  const org = (config.trackedOrgs || []).find(o => o.org.toLowerCase() === owner.toLowerCase());
+  if (!org || filterOrgRepos(org, [repo]).length === 0) return null;
+
+  return {
+    owner: org.org,
+    repo: repo.name,
+    description: repo.description || '',
+    ...(org.weight !== undefined ? { weight: org.weight } : {}),
+    ...(org.normalization ? { normalization: org.normalization } : {}),
+  };
+}
@@ -0,0 +1,150 @@
+import { Octokit } from '@octokit/rest';
+
+/**
+ * REQUEST SCHEDULER
+ *
+ * Shared pacing for every GitHub API request the tracker makes:
+ * - caps the number of requests in flight across all repositories
+ * - pauses until the reset time once X-RateLimit-Remaining hits zero
+ * - retries 429/5xx responses, and 403s that are rate limits (no budget
+ *   left or a Retry-After), honouring Retry-After and otherwise backing
+ *   off exponentially; other 403s (permissions, SSO) fail right away
+ *
+ * A request that still fails after the last retry is rethrown, so callers
+ * see the failure instead of silently working with partial data.
+ */
+
+// Types
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: 4,
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// A 403 is only worth retrying when it is a (secondary) rate limit
+function isRetryable(status: number, headers: Headers): boolean {
+  if (status === 403) {
+    return String(headers['x-ratelimit-remaining']) === '0' || headers['retry-after'] !== undefined;
+  }
+  return RETRYABLE_STATUSES.has(status);
+}
+
+// Sleep utility
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class RequestScheduler {
+  private options: SchedulerOptions;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private pausedUntil = 0;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  install(octokit: Octokit): void {
+    octokit.hook.wrap('request', (request, options) =>
+      this.schedule(async () => request(options), `${options.method} ${options.url}`)
+    );
+  }
+
+  async schedule<T extends { headers: Headers }>(task: () => Promise<T>, label: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      let delay: number;
+      try {
+        await this.waitForRateLimit();
+        const response = await task();
+        this.observe(response.headers);
+        return response;
+      } catch (error: any) {
+        const headers: Headers = error.response?.headers ?? {};
+        this.observe(headers);
+
+        if (!isRetryable(error.status, headers) || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        delay = this.retryDelay(headers, attempt);
+        console.warn(
+          `  ⏳ ${label} returned ${error.status}, retrying in ${Math.ceil(delay / 1000)}s ` +
+            `(${attempt + 1}/${this.options.maxRetries})`
+        );
+      } finally {
+        this.release();
+      }
+
+      await sleep(delay);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by release()
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    const wait = this.pausedUntil - Date.now();
+    if (wait > 0) {
+      console.warn(`  ⏸️  Rate limit exhausted, waiting ${Math.ceil(wait / 1000)}s for reset`);
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * Remember when the rate limit resets once the remaining budget is spent
+   */
+  private observe(headers: Headers): void {
+    const remaining = headers['x-ratelimit-remaining'];
+    const reset = headers['x-ratelimit-reset'];
+    if (remaining !== undefined && Number(remaining) === 0 && reset !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, Number(reset) * 1000);
+    }
+  }
+
+  private retryDelay(headers: Headers, attempt: number): number {
+    const retryAfter = headers['retry-after'];
+    if (retryAfter !== undefined) {
+      // Either a number of seconds or an HTTP-date
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? Date.parse(String(retryAfter)) - Date.now() : seconds * 1000;
+      return Number.isNaN(delay) ? this.options.baseDelayMs : Math.max(0, delay);
+    }
+
+    // Primary rate limit: the pause is handled before the next attempt
+    if (this.pausedUntil > Date.now()) {
+      return 0;
+    }
+
+    const backoff = this.options.baseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.options.baseDelayMs;
+    return Math.min(backoff + jitter, this.options.maxDelayMs);
+  }
+}
@@ -0,0 +1,235 @@
+import path from 'path';
+import {
+  IncompleteRepo,
+  RepoEvents,
+  buildContributorsFile,
+  printContributorsSummary,
+  writeContributorsFile,
+  DEFAULT_CONTRIBUTORS_PATH,
+} from './contributors-file.js';
+import { DEFAULT_EVENT_STORE_PATH, EventStore } from './event-store.js';
+import { IdentityResolver } from './identities.js';
+import { archiveRun } from './run-history.js';
+import { Config, TrackedRepo, loadConfig, repoName } from './tracker-config.js';
+import { TrackingWindow, monthsWindow, parseWindow } from './tracking-window.js';
+import { loadWalletMappings } from './wallet-mappings.js';
+import { printWalletIssues, validateWallets } from './wallet-validation.js';
+
+/**
+ * RESCORE
+ *
+ * Rebuilds contributors.json from the event store written by the tracker,
+ * without touching the GitHub API. Use it to try out scoring changes:
+ *
+ *   npm run rescore -- --set=scoring.prWeight=5 --set=minScore=10
+ *   npm run rescore -- --config=experiment.json --output=/tmp/contributors.json
+ *   npm run rescore -- --epoch=2913
+ *
+ * A rescore written to data/contributors.json is archived like a tracker
+ * run; one written to --output (or run with --no-archive) is not.
+ *
+ * Repositories are taken from the current config (explicit repos, plus
+ * stored repos of tracked orgs). One whose stored events don't cover the
+ * window makes the output incomplete, exactly like a failed fetch would.
+ */
+
+// Types
+interface RescoreOptions {
+  configPath: string;
+  storePath: string;
+  outputPath: string;
+  overrides: [string, unknown][];
+  archive: boolean;
+  window: { from?: string; to?: string; epoch?: string };
+}
+
+// Parse command line options
+function parseArgs(): RescoreOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const overrides = args
+    .filter(arg => arg.startsWith('--set='))
+    .map((arg): [string, unknown] => {
+      const assignment = arg.slice('--set='.length);
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Invalid ${arg} (expected --set=<config path>=<value>)`);
+      }
+      return [assignment.slice(0, separator), parseValue(assignment.slice(separator + 1))];
+    });
+
+  return {
+    configPath: path.resolve(getArg('config') || 'config.json'),
+    storePath: path.resolve(getArg('store') || DEFAULT_EVENT_STORE_PATH),
+    outputPath: path.resolve(getArg('output') || DEFAULT_CONTRIBUTORS_PATH),
+    overrides,
+    // Experiments written elsewhere stay out of the run history
+    archive: !args.includes('--no-archive') && getArg('output') === undefined,
+    window: { from: getArg('from'), to: getArg('to'), epoch: getArg('epoch') },
+  };
+}
+
+// Numbers, booleans and JSON values are parsed, anything else is a string
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Set a dotted path such as scoring.prWeight on the config
+function applyOverride(config: Config, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let target: any = config;
+  for (const part of parts.slice(0, -1)) {
+    target[part] ??= {};
+    target = target[part];
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+// Stored repositories the current config still tracks, with its settings
+function selectRepos(config: Config, store: EventStore): { repos: TrackedRepo[]; missing: TrackedRepo[] } {
+  const repos: TrackedRepo[] = [];
+  const missing: TrackedRepo[] = [];
+  const seen = new Set<string>();
+
+  for (const repo of config.trackedRepos) {
+    const name = repoName(repo).toLowerCase();
+    seen.add(name);
+    if (store.getRepo(name)) {
+      repos.push(repo);
+    } else {
+      missing.push(repo);
+    }
+  }
+
+  for (const org of config.trackedOrgs || []) {
+    for (const stored of store.repos()) {
+      const name = repoName(stored.repo).toLowerCase();
+      if ((stored.repo.platform ?? 'github') !== 'github') continue;
+      if (stored.repo.owner.toLowerCase() !== org.org.toLowerCase() || seen.has(name)) continue;
+      seen.add(name);
+
+      const { weight, normalization, ...repo } = stored.repo;
+      repos.push({
+        ...repo,
+        ...(org.weight !== undefined ? { weight: org.weight } : {}),
+        ...(org.normalization ? { normalization: org.normalization } : {}),
+      });
+    }
+  }
+
+  return { repos, missing };
+}
+
+// Repositories whose stored events don't span the whole window
+function findUncovered(repos: TrackedRepo[], store: EventStore, window: TrackingWindow): IncompleteRepo[] {
+  const uncovered: IncompleteRepo[] = [];
+  for (const repo of repos) {
+    const { coverage } = store.getRepo(repoName(repo))!;
+    if (new Date(coverage.from) > window.from || new Date(coverage.to) < window.to) {
+      uncovered.push({
+        repo: repoName(repo),
+        error: `stored events only cover ${coverage.from} to ${coverage.to}`,
+      });
+    }
+  }
+  return uncovered;
+}
+
+// Main function
+async function main() {
+  console.log('🧮 Rescoring contributions from the event store\n');
+
+  const options = parseArgs();
+  const config = await loadConfig(options.configPath);
+  for (const [key, value] of options.overrides) {
+    applyOverride(config, key, value);
+    console.log(`🔧 ${key} = ${JSON.stringify(value)}`);
+  }
+
+  const store = await EventStore.open(options.storePath);
+  if (!store.updatedAt) {
+    console.error(`❌ No stored events in ${options.storePath}`);
+    console.log('💡 Run npm run track first to fill the event store');
+    process.exit(1);
+  }
+
+  // Default to the window the last tracker run used
+  const window =
+    parseWindow(options.window, store.updatedAt) ?? monthsWindow(config.timeFrame.months, store.updatedAt);
+  console.log(
+    `📅 Scoring contributions from ${window.from.toISOString()} to ${window.to.toISOString()}` +
+      (window.epoch !== undefined ? ` (epoch ${window.epoch})` : '')
+  );
+  console.log(`🗃️  ${store.size} events stored, last run ${store.updatedAt.toISOString()}`);
+
+  const { repos, missing } = selectRepos(config, store);
+  const incompleteRepos: IncompleteRepo[] = [
+    ...missing.map(r => ({ repo: repoName(r), error: 'no stored events' })),
+    ...findUncovered(repos, store, window),
+  ];
+  const repoEvents: RepoEvents[] = repos.map(repo => ({
+    repo,
+    events: store.eventsFor(repoName(repo)),
+  }));
+
+  const now = new Date();
+  const identities = await IdentityResolver.load();
+  const walletMappings = await loadWalletMappings(config, now);
+  const walletValidation = await validateWallets(
+    walletMappings.wallets,
+    config,
+    identities,
+    window.epoch ?? null
+  );
+  printWalletIssues(walletValidation);
+
+  const output = buildContributorsFile({
+    config,
+    window,
+    now,
+    trackedRepos: [...repos, ...missing],
+    repos: repoEvents,
+    resolvedRepos: repos.map(r => ({
+      repo: repoName(r),
+      origin: config.trackedRepos.includes(r) ? 'config' : `org:${r.owner}`,
+    })),
+    incompleteRepos,
+    walletMappings: walletValidation.wallets,
+    walletIssues: [...walletValidation.rejected, ...walletValidation.conflicts],
+    pendingWalletChanges: walletMappings.pending,
+    identities,
+    unresolvedAuthors: store.unresolvedAuthors,
+  });
+
+  await writeContributorsFile(output, options.outputPath);
+  const archivePath = options.archive ? await archiveRun(output) : null;
+
+  if (incompleteRepos.length > 0) {
+    console.log('\n⚠️  Rescore INCOMPLETE - scores below are undercounted!');
+    incompleteRepos.forEach(r => console.log(`   ❌ ${r.repo}: ${r.error}`));
+  } else {
+    console.log('\n✅ Rescore complete!');
+  }
+  printContributorsSummary(output);
+
+  console.log(`\n💾 Results saved to: ${options.outputPath}`);
+  if (archivePath) {
+    console.log(`🗄️  Run archived to: ${archivePath}`);
+  }
+  if (incompleteRepos.length > 0) {
+    console.log('\n💡 Run npm run track for the missing windows, then rescore again.');
+    process.exitCode = 1;
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,192 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ContributorsFile } from './contributors-file.js';
+import { roundScore } from './scoring.js';
+
+/**
+ * RUN HISTORY
+ *
+ * Every tracker run (and every rescore written to contributors.json) is
+ * archived under data/runs/, named after the run time and, for weekly
+ * runs, the epoch:
+ *
+ *   data/runs/2025-11-07T10-00-00-000Z-epoch-2914.json
+ *
+ * Two archived runs can be compared to see how scores and eligibility
+ * moved between them.
+ */
+
+// Types
+export interface ArchivedRun {
+  path: string;
+  lastUpdated: string;
+  epoch: number | null;
+}
+
+export type ContributorStatus = 'new' | 'dropped' | 'newly-eligible' | 'newly-ineligible' | 'changed';
+
+export interface ContributorChange {
+  github: string;
+  status: ContributorStatus;
+  oldScore: number | null;
+  newScore: number | null;
+  delta: number;
+  oldEligible: boolean;
+  newEligible: boolean;
+}
+
+export interface RunDiff {
+  old: { path: string; lastUpdated: string; window: ContributorsFile['window'] };
+  new: { path: string; lastUpdated: string; window: ContributorsFile['window'] };
+  summary: {
+    newContributors: number;
+    droppedContributors: number;
+    newlyEligible: number;
+    newlyIneligible: number;
+    scoreChanges: number;
+    oldTotalScore: number;
+    newTotalScore: number;
+  };
+  /** Every contributor whose presence, eligibility or score changed, biggest move first */
+  changes: ContributorChange[];
+}
+
+export const DEFAULT_RUNS_DIR = path.join(process.cwd(), '../data/runs');
+
+const ARCHIVE_NAME = /^(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)(?:-epoch-(\d+))?\.json$/;
+
+/**
+ * Copy a contributors file into the run archive, returning its path
+ */
+export async function archiveRun(file: ContributorsFile, dir = DEFAULT_RUNS_DIR): Promise<string> {
+  const stamp = file.lastUpdated.replace(/[:.]/g, '-');
+  const epoch = file.window.epoch !== null ? `-epoch-${file.window.epoch}` : '';
+  const archivePath = path.join(dir, `${stamp}${epoch}.json`);
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(archivePath, JSON.stringify(file, null, 2));
+  return archivePath;
+}
+
+/**
+ * Archived runs, oldest first
+ */
+export async function listRuns(dir = DEFAULT_RUNS_DIR): Promise<ArchivedRun[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return files
+    .map(file => ({ file, match: ARCHIVE_NAME.exec(file) }))
+    .filter((entry): entry is { file: string; match: RegExpExecArray } => entry.match !== null)
+    .map(({ file, match }) => ({
+      path: path.join(dir, file),
+      // Restore the ISO timestamp the file name was derived from
+      lastUpdated: match[1].replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/, 'T$1:$2:$3.$4Z'),
+      epoch: match[2] !== undefined ? Number(match[2]) : null,
+    }))
+    .sort((a, b) => a.lastUpdated.localeCompare(b.lastUpdated));
+}
+
+/**
+ * Find a run by reference:
+ * - `latest`, `previous` (the one before latest)
+ * - `epoch-<N>` or a bare epoch number (the latest run of that epoch)
+ * - a path to any contributors file
+ */
+export async function resolveRun(ref: string, dir = DEFAULT_RUNS_DIR): Promise<string> {
+  const runs = await listRuns(dir);
+
+  if (ref === 'latest' || ref === 'previous') {
+    const run = runs[runs.length - (ref === 'latest' ? 1 : 2)];
+    if (!run) {
+      throw new Error(`No ${ref} run archived in ${dir}`);
+    }
+    return run.path;
+  }
+
+  const epochMatch = /^(?:epoch-)?(\d+)$/.exec(ref);
+  if (epochMatch) {
+    const epoch = Number(epochMatch[1]);
+    const run = runs.filter(r => r.epoch === epoch).pop();
+    if (!run) {
+      throw new Error(`No run archived for epoch ${epoch} in ${dir}`);
+    }
+    return run.path;
+  }
+
+  return path.resolve(ref);
+}
+
+export async function loadRun(filePath: string): Promise<ContributorsFile> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read run ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Compare two runs contributor by contributor
+ */
+export function diffRuns(
+  oldRun: ContributorsFile,
+  newRun: ContributorsFile,
+  paths: { old: string; new: string }
+): RunDiff {
+  const before = new Map(oldRun.contributors.map(c => [c.github.toLowerCase(), c]));
+  const after = new Map(newRun.contributors.map(c => [c.github.toLowerCase(), c]));
+  const changes: ContributorChange[] = [];
+
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const was = before.get(key);
+    const now = after.get(key);
+    const oldScore = was?.totalScore ?? null;
+    const newScore = now?.totalScore ?? null;
+    const oldEligible = was?.eligible ?? false;
+    const newEligible = now?.eligible ?? false;
+    const delta = roundScore((newScore ?? 0) - (oldScore ?? 0));
+
+    let status: ContributorStatus;
+    if (!was) status = 'new';
+    else if (!now) status = 'dropped';
+    else if (!oldEligible && newEligible) status = 'newly-eligible';
+    else if (oldEligible && !newEligible) status = 'newly-ineligible';
+    else if (delta !== 0) status = 'changed';
+    else continue;
+
+    changes.push({
+      github: (now ?? was)!.github,
+      status,
+      oldScore,
+      newScore,
+      delta,
+      oldEligible,
+      newEligible,
+    });
+  }
+
+  changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.github.localeCompare(b.github));
+
+  const count = (status: ContributorStatus) => changes.filter(c => c.status === status).length;
+  const total = (run: ContributorsFile) => roundScore(run.contributors.reduce((sum, c) => sum + c.totalScore, 0));
+
+  return {
+    old: { path: paths.old, lastUpdated: oldRun.lastUpdated, window: oldRun.window },
+    new: { path: paths.new, lastUpdated: newRun.lastUpdated, window: newRun.window },
+    summary: {
+      newContributors: count('new'),
+      droppedContributors: count('dropped'),
+      newlyEligible: count('newly-eligible'),
+      newlyIneligible: count('newly-ineligible'),
+      scoreChanges: changes.filter(c => c.delta !== 0).length,
+      oldTotalScore: total(oldRun),
+      newTotalScore: total(newRun),
+    },
+    changes,
+  };
+}
@@ -0,0 +1,578 @@
+import { DEFAULT_CO_AUTHOR_SHARE } from './author-resolution.js';
+import { ExclusionMatcher } from './exclusions.js';
+import { IdentityResolver } from './identities.js';
+import { CategoryLimit, Config, DecayConfig, ScoreCategory, TrackedRepo, repoName } from './tracker-config.js';
+import { TrackingWindow, isInTrackingWindow } from './tracking-window.js';
+
+/**
+ * CONTRIBUTION SCORING
+ *
+ * The tracker turns every fetched item into a ContributionEvent, dated by
+ * the timestamp that placed it in the tracking window. Scores are built
+ * from those events, so weights and time decay apply per contribution
+ * rather than to pre-aggregated counts, and stored events can be scored
+ * again later under a different configuration.
+ */
+
+// Types
+export type ContributionType = 'commit' | 'pr' | 'issue' | 'review' | 'review-comment' | 'comment';
+
+export type PrOutcome = 'merged' | 'open' | 'closed';
+
+export interface EventMetadata {
+  /** Pull request state at fetch time (closed = closed without merge) */
+  outcome?: PrOutcome;
+  /** Pull request dates, so prCountMode can be applied when scoring */
+  createdAt?: string;
+  mergedAt?: string | null;
+  /** Commit credit from a Co-authored-by trailer rather than authorship */
+  coAuthor?: boolean;
+  /** Commit split by touched paths (category → share, summing to 1) */
+  categories?: Record<string, number>;
+  /** Labels of a PR or issue */
+  labels?: string[];
+  /** Review state as reported by GitHub (APPROVED, CHANGES_REQUESTED, ...) */
+  reviewState?: string;
+  /** Issue or PR number a comment was left on */
+  item?: string;
+}
+
+export interface ContributionEvent {
+  /** Commit sha, PR/issue number or review id */
+  id: string;
+  type: ContributionType;
+  /** owner/repo */
+  repo: string;
+  login: string;
+  timestamp: string;
+  /** Share of the contribution credited to this login when fetched */
+  credit: number;
+  metadata?: EventMetadata;
+}
+
+export interface CategoryScore {
+  count: number;
+  /** Points before caps and curves */
+  raw: number;
+  /** Points after caps and curves, before repo weight/normalization */
+  adjusted: number;
+}
+
+export interface ContributorScore {
+  github: string;
+  wallet: string | null;
+  commits: number;
+  prs: number;
+  prsMerged: number;
+  prsOpen: number;
+  prsClosed: number;
+  issues: number;
+  reviews: number;
+  approvals: number;
+  changeRequests: number;
+  /** Inline code comments left in PR reviews */
+  reviewComments: number;
+  /** Discussion comments on issues and PRs */
+  comments: number;
+  totalScore: number;
+  /** Points before caps, curves and repo adjustments */
+  rawScore: number;
+  categoryScores: Record<ScoreCategory, CategoryScore>;
+  /** Commits per path category (see commitClassification) */
+  commitCategories: Record<string, number>;
+  /** PRs and issues per label that changed their weight */
+  labels: Record<string, number>;
+  lastUpdated: string;
+  eligible: boolean;
+  /** Why the contributor isn't eligible (empty when eligible) */
+  ineligibleReasons: IneligibilityReason[];
+  repos: string[];
+  /** Other logins of this contributor whose activity was folded in */
+  aliases: string[];
+  /** Score per repo before and after weight/normalization */
+  repoScores: Record<string, { raw: number; adjusted: number }>;
+}
+
+/**
+ * Machine-readable reasons a contributor is left out of a distribution
+ * (see eligibility.ts)
+ */
+export type IneligibilityReason =
+  | 'no-wallet'
+  | 'below-min-score'
+  | 'invalid-address'
+  | 'excluded-bot'
+  | 'opted-out'
+  | 'duplicate-wallet';
+
+export interface RepoResult {
+  repo: TrackedRepo;
+  contributors: Map<string, Partial<ContributorScore>>;
+}
+
+export interface ExcludedAccount {
+  github: string;
+  reason: string;
+  commits: number;
+  prs: number;
+  issues: number;
+  reviews: number;
+  totalScore: number;
+}
+
+export const DEFAULT_NORMALIZED_REPO_BUDGET = 100;
+
+export const SCORE_CATEGORIES: ScoreCategory[] = [
+  'commits',
+  'prs',
+  'issues',
+  'reviews',
+  'reviewComments',
+  'comments',
+];
+
+const CATEGORY_BY_TYPE: Record<ContributionType, ScoreCategory> = {
+  commit: 'commits',
+  pr: 'prs',
+  issue: 'issues',
+  review: 'reviews',
+  'review-comment': 'reviewComments',
+  comment: 'comments',
+};
+
+export function emptyCategoryScores(): Record<ScoreCategory, CategoryScore> {
+  return Object.fromEntries(
+    SCORE_CATEGORIES.map(category => [category, { count: 0, raw: 0, adjusted: 0 }])
+  ) as Record<ScoreCategory, CategoryScore>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Multiplier for a contribution made at `timestamp`, seen from `now`
+ */
+export function decayMultiplier(decay: DecayConfig | undefined, timestamp: string, now: Date): number {
+  if (!decay || decay.type === 'none') return 1;
+
+  const ageDays = Math.max(0, (now.getTime() - new Date(timestamp).getTime()) / DAY_MS);
+
+  if (decay.type === 'exponential') {
+    return Math.pow(0.5, ageDays / decay.halfLifeDays);
+  }
+
+  const step = [...decay.steps]
+    .sort((a, b) => a.maxAgeDays - b.maxAgeDays)
+    .find(s => ageDays <= s.maxAgeDays);
+  return step ? step.multiplier : 0;
+}
+
+/**
+ * Moment an event counts at, or null if it doesn't count at all
+ *
+ * Pull request events are stored with their last update as timestamp;
+ * `created` and `merged` count modes date them by creation or merge.
+ */
+export function eventTimestamp(event: ContributionEvent, scoring: Config['scoring']): string | null {
+  if (event.type !== 'pr') return event.timestamp;
+
+  switch (scoring.prCountMode || 'updated') {
+    case 'created':
+      return event.metadata?.createdAt ?? event.timestamp;
+    case 'merged':
+      return event.metadata?.mergedAt ?? null;
+    default:
+      return event.timestamp;
+  }
+}
+
+/**
+ * Share of a contribution credited to the event's login
+ */
+export function eventCredit(event: ContributionEvent, scoring: Config['scoring']): number {
+  if (event.metadata?.coAuthor) return scoring.coAuthorShare ?? DEFAULT_CO_AUTHOR_SHARE;
+  return event.credit;
+}
+
+/**
+ * Weight of one full contribution of the event's type
+ */
+export function eventWeight(event: ContributionEvent, scoring: Config['scoring']): number {
+  switch (event.type) {
+    case 'commit':
+      if (event.metadata?.categories) {
+        return Object.entries(event.metadata.categories).reduce(
+          (sum, [category, share]) =>
+            sum + share * scoring.commitWeight * (scoring.commitCategoryWeights?.[category] ?? 1),
+          0
+        );
+      }
+      return scoring.commitWeight;
+    case 'issue':
+      return scoring.issueWeight;
+    case 'review':
+      if (event.metadata?.reviewState === 'APPROVED') return scoring.approvalWeight ?? scoring.reviewWeight;
+      if (event.metadata?.reviewState === 'CHANGES_REQUESTED') {
+        return scoring.changeRequestWeight ?? scoring.reviewWeight;
+      }
+      return scoring.reviewWeight;
+    case 'review-comment':
+      return scoring.reviewCommentWeight ?? 0;
+    case 'comment':
+      return scoring.commentWeight ?? 0;
+    case 'pr':
+      if (event.metadata?.outcome === 'merged') return scoring.mergedPrWeight ?? scoring.prWeight;
+      if (event.metadata?.outcome === 'open') return scoring.openPrWeight ?? scoring.prWeight;
+      return scoring.closedPrWeight ?? scoring.prWeight;
+  }
+}
+
+/**
+ * Most comments of a type one login can earn points for on a single item
+ */
+function commentCap(type: ContributionType, scoring: Config['scoring']): number {
+  if (type === 'review-comment') return scoring.maxReviewCommentsPerPr ?? Infinity;
+  if (type === 'comment') return scoring.maxCommentsPerItem ?? Infinity;
+  return Infinity;
+}
+
+/**
+ * Labels of an event that have a multiplier, with the combined multiplier
+ */
+export function matchLabels(
+  event: ContributionEvent,
+  multipliers: Record<string, number>
+): { labels: string[]; multiplier: number } {
+  const byLabel = new Map(Object.entries(multipliers).map(([label, m]) => [label.toLowerCase(), m]));
+  const labels = (event.metadata?.labels || []).filter(label => byLabel.has(label.toLowerCase()));
+  const multiplier = labels.reduce((product, label) => product * byLabel.get(label.toLowerCase())!, 1);
+  return { labels, multiplier };
+}
+
+/**
+ * Points a category is worth after its cap and curve
+ *
+ * Both act on the count, in units of one full contribution: the count is
+ * first capped, then bent by the curve (`sqrt`: √n, `log`: 1 + ln n), and
+ * the points scale by the same factor. Counts of one or less are never
+ * reduced by a curve, so a single contribution keeps its full weight.
+ */
+export function applyCategoryLimit(count: number, points: number, limit: CategoryLimit | undefined): number {
+  if (!limit || count <= 0) return points;
+
+  const capped = limit.cap !== undefined ? Math.min(count, limit.cap) : count;
+  let effective = capped;
+  if (capped > 1 && limit.curve === 'sqrt') effective = Math.sqrt(capped);
+  if (capped > 1 && limit.curve === 'log') effective = 1 + Math.log(capped);
+
+  return points * (effective / count);
+}
+
+/**
+ * Aggregate one repository's events inside the window into counts and
+ * raw score per canonical identity. Decay is measured from the end of
+ * the window.
+ *
+ * Comments beyond the per-item caps are ignored entirely, so a string of
+ * "+1" replies on one issue counts as a single comment at most. Category
+ * limits and the per-repo cap then apply to each contributor's totals.
+ * Aliased logins are folded first, so linked accounts share one set of
+ * caps instead of each getting their own.
+ */
+export function scoreEvents(
+  trackedRepo: TrackedRepo,
+  events: ContributionEvent[],
+  scoring: Config['scoring'],
+  window: TrackingWindow,
+  identities?: IdentityResolver
+): Map<string, Partial<ContributorScore>> {
+  const repo = repoName(trackedRepo);
+  const contributors = new Map<string, Partial<ContributorScore>>();
+  const commentsPerItem = new Map<string, number>();
+  const labelMultipliers = { ...scoring.labelMultipliers, ...trackedRepo.labelMultipliers };
+
+  const dated = events
+    .map(event => ({ event, timestamp: eventTimestamp(event, scoring) }))
+    .filter((entry): entry is { event: ContributionEvent; timestamp: string } =>
+      entry.timestamp !== null && isInTrackingWindow(window, entry.timestamp)
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const { event, timestamp } of dated) {
+    const credit = eventCredit(event, scoring);
+    if (credit <= 0) continue;
+
+    const github = identities?.canonical(event.login) ?? event.login;
+    if (event.metadata?.item !== undefined) {
+      const key = `${github}\n${event.type}\n${event.metadata.item}`;
+      const seen = commentsPerItem.get(key) || 0;
+      if (seen >= commentCap(event.type, scoring)) continue;
+      commentsPerItem.set(key, seen + 1);
+    }
+
+    let data = contributors.get(github);
+    if (!data) {
+      data = {
+        github,
+        commits: 0,
+        prs: 0,
+        prsMerged: 0,
+        prsOpen: 0,
+        prsClosed: 0,
+        issues: 0,
+        reviews: 0,
+        approvals: 0,
+        changeRequests: 0,
+        reviewComments: 0,
+        comments: 0,
+        totalScore: 0,
+        rawScore: 0,
+        categoryScores: emptyCategoryScores(),
+        commitCategories: {},
+        labels: {},
+        repos: [repo],
+        aliases: [],
+      };
+      contributors.set(github, data);
+    }
+    if (event.login !== github && !data.aliases!.includes(event.login)) {
+      data.aliases!.push(event.login);
+    }
+
+    switch (event.type) {
+      case 'commit':
+        data.commits! += credit;
+        for (const [commitCategory, share] of Object.entries(event.metadata?.categories || {})) {
+          data.commitCategories![commitCategory] = (data.commitCategories![commitCategory] || 0) + credit * share;
+        }
+        break;
+      case 'pr':
+        data.prs! += credit;
+        if (event.metadata?.outcome === 'merged') data.prsMerged! += credit;
+        else if (event.metadata?.outcome === 'open') data.prsOpen! += credit;
+        else data.prsClosed! += credit;
+        break;
+      case 'issue':
+        data.issues! += credit;
+        break;
+      case 'review':
+        data.reviews! += credit;
+        if (event.metadata?.reviewState === 'APPROVED') data.approvals! += credit;
+        else if (event.metadata?.reviewState === 'CHANGES_REQUESTED') data.changeRequests! += credit;
+        break;
+      case 'review-comment':
+        data.reviewComments! += credit;
+        break;
+      case 'comment':
+        data.comments! += credit;
+        break;
+    }
+
+    const { labels, multiplier } = matchLabels(event, labelMultipliers);
+    for (const label of labels) {
+      data.labels![label] = (data.labels![label] || 0) + 1;
+    }
+
+    const category = data.categoryScores![CATEGORY_BY_TYPE[event.type]];
+    category.count += credit;
+    category.raw +=
+      credit * eventWeight(event, scoring) * multiplier * decayMultiplier(scoring.decay, timestamp, window.to);
+  }
+
+  for (const data of contributors.values()) {
+    let total = 0;
+    for (const category of SCORE_CATEGORIES) {
+      const categoryScore = data.categoryScores![category];
+      categoryScore.adjusted = applyCategoryLimit(
+        categoryScore.count,
+        categoryScore.raw,
+        scoring.categoryLimits?.[category]
+      );
+      data.rawScore! += categoryScore.raw;
+      total += categoryScore.adjusted;
+    }
+    data.totalScore = scoring.maxRepoScore !== undefined ? Math.min(total, scoring.maxRepoScore) : total;
+  }
+
+  return contributors;
+}
+
+// Round a score to two decimals for readable output
+export function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Convert a tracker score to the integer committed in a Merkle leaf
+ *
+ * Fractional credit (e.g. co-authored commits) is rounded to the nearest point.
+ */
+export function toLeafScore(totalScore: number): number {
+  return Math.round(totalScore);
+}
+
+/**
+ * Score a contributor needs to be paid: minScore, and never less than
+ * what rounds to a leaf score of 1
+ */
+export function requiredScore(minScore: number): number {
+  return Math.max(minScore, 0.5);
+}
+
+// Factor applied to every raw score from a repository
+export function getRepoMultiplier(
+  result: RepoResult,
+  scoring: Config['scoring']
+): number {
+  const weight = result.repo.weight ?? 1;
+  if (result.repo.normalization !== 'activity') return weight;
+
+  let repoTotal = 0;
+  for (const data of result.contributors.values()) {
+    repoTotal += data.totalScore || 0;
+  }
+  const budget = scoring.normalizedRepoBudget ?? DEFAULT_NORMALIZED_REPO_BUDGET;
+  return repoTotal > 0 ? (weight * budget) / repoTotal : 0;
+}
+
+// Remove excluded accounts from every repo before scores are merged
+export function removeExcludedAccounts(
+  results: RepoResult[],
+  isExcluded: ExclusionMatcher
+): ExcludedAccount[] {
+  const excluded = new Map<string, ExcludedAccount>();
+
+  for (const { contributors } of results) {
+    for (const [github, data] of contributors) {
+      const reason = isExcluded(github);
+      if (!reason) continue;
+
+      const account = excluded.get(github) || {
+        github, reason, commits: 0, prs: 0, issues: 0, reviews: 0, totalScore: 0,
+      };
+      account.commits += data.commits || 0;
+      account.prs += data.prs || 0;
+      account.issues += data.issues || 0;
+      account.reviews += data.reviews || 0;
+      account.totalScore += data.totalScore || 0;
+      excluded.set(github, account);
+      contributors.delete(github);
+    }
+  }
+
+  return Array.from(excluded.values()).sort((a, b) => b.totalScore - a.totalScore);
+}
+
+// Add one repo's category scores to a contributor's running totals
+function mergeCategoryScores(
+  target: Record<ScoreCategory, CategoryScore>,
+  source: Record<ScoreCategory, CategoryScore> | undefined
+): Record<ScoreCategory, CategoryScore> {
+  for (const category of SCORE_CATEGORIES) {
+    const from = source?.[category];
+    if (!from) continue;
+    target[category] = {
+      count: target[category].count + from.count,
+      raw: roundScore(target[category].raw + from.raw),
+      adjusted: roundScore(target[category].adjusted + from.adjusted),
+    };
+  }
+  return target;
+}
+
+// Add one repo's per-key counts (commit categories, labels) to a
+// contributor's running totals
+function mergeCounts(
+  target: Record<string, number>,
+  source: Record<string, number> | undefined
+): Record<string, number> {
+  for (const [key, count] of Object.entries(source || {})) {
+    target[key] = roundScore((target[key] || 0) + count);
+  }
+  return target;
+}
+
+// Merge contributors from multiple repositories, applying repo weights
+// and folding any aliased logins scoreEvents left into their canonical
+// identity
+export function mergeContributors(
+  results: RepoResult[],
+  scoring: Config['scoring'],
+  now: Date,
+  identities?: IdentityResolver
+): Map<string, ContributorScore> {
+  const merged = new Map<string, ContributorScore>();
+
+  for (const result of results) {
+    const name = repoName(result.repo);
+    const multiplier = getRepoMultiplier(result, scoring);
+
+    for (const [login, data] of result.contributors) {
+      const github = identities?.canonical(login) ?? login;
+      const aliases = [...(data.aliases || []), ...(login === github ? [] : [login])];
+      const raw = data.totalScore || 0;
+      const adjusted = roundScore(raw * multiplier);
+      const existing = merged.get(github);
+
+      if (existing) {
+        // Merge data
+        existing.commits += data.commits || 0;
+        existing.prs += data.prs || 0;
+        existing.prsMerged += data.prsMerged || 0;
+        existing.prsOpen += data.prsOpen || 0;
+        existing.prsClosed += data.prsClosed || 0;
+        existing.issues += data.issues || 0;
+        existing.reviews += data.reviews || 0;
+        existing.approvals += data.approvals || 0;
+        existing.changeRequests += data.changeRequests || 0;
+        existing.reviewComments += data.reviewComments || 0;
+        existing.comments += data.comments || 0;
+        existing.totalScore = roundScore(existing.totalScore + adjusted);
+        existing.rawScore = roundScore(existing.rawScore + (data.rawScore || 0));
+        mergeCategoryScores(existing.categoryScores, data.categoryScores);
+        mergeCounts(existing.commitCategories, data.commitCategories);
+        mergeCounts(existing.labels, data.labels);
+        for (const repo of data.repos || []) {
+          if (!existing.repos.includes(repo)) existing.repos.push(repo);
+        }
+        for (const alias of aliases) {
+          if (!existing.aliases.includes(alias)) existing.aliases.push(alias);
+        }
+        // Two logins of one identity can both be active in a repo
+        const repoScore = existing.repoScores[name];
+        existing.repoScores[name] = repoScore
+          ? { raw: repoScore.raw + raw, adjusted: roundScore(repoScore.adjusted + adjusted) }
+          : { raw, adjusted };
+      } else {
+        // New contributor
+        merged.set(github, {
+          github,
+          wallet: null,
+          commits: data.commits || 0,
+          prs: data.prs || 0,
+          prsMerged: data.prsMerged || 0,
+          prsOpen: data.prsOpen || 0,
+          prsClosed: data.prsClosed || 0,
+          issues: data.issues || 0,
+          reviews: data.reviews || 0,
+          approvals: data.approvals || 0,
+          changeRequests: data.changeRequests || 0,
+          reviewComments: data.reviewComments || 0,
+          comments: data.comments || 0,
+          totalScore: adjusted,
+          rawScore: roundScore(data.rawScore || 0),
+          categoryScores: mergeCategoryScores(emptyCategoryScores(), data.categoryScores),
+          commitCategories: mergeCounts({}, data.commitCategories),
+          labels: mergeCounts({}, data.labels),
+          lastUpdated: now.toISOString(),
+          eligible: false,
+          ineligibleReasons: [],
+          repos: data.repos || [],
+          aliases,
+          repoScores: { [name]: { raw, adjusted } },
+        });
+      }
+    }
+  }
+
+  return merged;
+}
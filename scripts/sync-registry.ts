@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import fs from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+import { RegistrationComparison, compareRegistrations, scanRegistrations } from './contributor-registry.js';
+import { loadConfig } from './tracker-config.js';
+import { appendWalletChange, readWalletLog } from './wallet-mappings.js';
+
+dotenv.config({ path: '../.env' });
+
+/**
+ * SYNC REGISTRY
+ *
+ * Imports wallet ↔ GitHub bindings from ContributorRegistered events into
+ * the wallet log (data/wallet-log.jsonl):
+ *
+ *   npm run sync-registry
+ *   npm run sync-registry -- --from-block=23722227 --to-block=23800000
+ *   npm run sync-registry -- --dry-run
+ *
+ * The block range defaults to config.json registrySync, then to the
+ * deployment block up to the current block. Logins without a local
+ * wallet get the on-chain one. Where the local wallet differs, nothing
+ * is written: the conflict is reported and the command exits non-zero.
+ */
+
+// Types
+interface SyncOptions {
+  fromBlock?: number;
+  toBlock?: number;
+  dryRun: boolean;
+}
+
+// Parse command line options
+function parseArgs(): SyncOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const block = (name: string) => {
+    const value = getArg(name);
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`Invalid --${name} "${value}" (expected a block number)`);
+    }
+    return Number(value);
+  };
+
+  return {
+    fromBlock: block('from-block'),
+    toBlock: block('to-block'),
+    dryRun: args.includes('--dry-run'),
+  };
+}
+
+function printConflicts(conflicts: RegistrationComparison[]): void {
+  console.log(`\n⚠️  CONFLICTS (${conflicts.length}):`);
+  conflicts.forEach(({ registration, localAddress }) => {
+    console.log(
+      `   - ${registration.github}: registered ${registration.wallet} on-chain ` +
+        `(block ${registration.blockNumber}), wallet log has ${localAddress}`
+    );
+  });
+  console.log('   Confirm the right wallet with the contributor, then record it with npm run wallets -- --set');
+}
+
+// Main function
+async function main() {
+  const options = parseArgs();
+  const rpcUrl = process.env.ETH_RPC_URL;
+  if (!rpcUrl) {
+    throw new Error('ETH_RPC_URL not set in .env');
+  }
+
+  const config = await loadConfig();
+  const deployment = JSON.parse(
+    await fs.readFile(path.join(process.cwd(), 'deployment-config.json'), 'utf-8')
+  );
+  const registryAddress = deployment.contracts?.contributorRegistry || process.env.CONTRIBUTOR_REGISTRY_ADDRESS;
+  if (!registryAddress) {
+    throw new Error('No ContributorRegistry address in deployment-config.json or CONTRIBUTOR_REGISTRY_ADDRESS');
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const sync = config.registrySync || {};
+  const fromBlock = options.fromBlock ?? sync.fromBlock ?? deployment.deploymentBlockNumber ?? 0;
+  const toBlock = options.toBlock ?? sync.toBlock ?? (await provider.getBlockNumber());
+
+  console.log(`⛓️  Reading ContributorRegistered events from ${registryAddress}`);
+  const scan = await scanRegistrations(provider, registryAddress, {
+    fromBlock,
+    toBlock,
+    confirmations: sync.confirmations ?? 12,
+    blockChunk: sync.blockChunk ?? 10_000,
+  });
+  console.log(`   Blocks ${scan.fromBlock} to ${scan.toBlock} on chain ${scan.chainId}`);
+  console.log(`   ${scan.registrations.length} confirmed registrations`);
+  scan.unconfirmed.forEach(({ registration, boundTo }) => {
+    console.log(
+      `   ⚠️  Skipping ${registration.github}: event names ${registration.wallet}, ` +
+        `githubToAddress returns ${boundTo}`
+    );
+  });
+
+  const comparisons = compareRegistrations(scan.registrations, await readWalletLog());
+  const added = comparisons.filter(c => c.status === 'new');
+  const conflicts = comparisons.filter(c => c.status === 'conflict');
+  console.log(`   ${comparisons.length - added.length - conflicts.length} already in the wallet log`);
+
+  if (added.length > 0) {
+    console.log(`\n🆕 NEW WALLETS (${added.length})${options.dryRun ? ' [dry run]' : ''}:`);
+  }
+  for (const { registration } of added) {
+    console.log(`   - ${registration.github}: ${registration.wallet}`);
+    if (options.dryRun) continue;
+    await appendWalletChange(registration.github, registration.wallet, {
+      type: 'registry',
+      registry: scan.registry,
+      chainId: scan.chainId,
+      blockNumber: registration.blockNumber,
+      txHash: registration.txHash,
+    });
+  }
+
+  if (conflicts.length > 0) {
+    printConflicts(conflicts);
+    process.exitCode = 1;
+  }
+
+  if (added.length > 0 && !options.dryRun) {
+    console.log('\n💾 Wallet changes logged to data/wallet-log.jsonl');
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { EventStore } from '../event-store.js';
+import { ContributionEvent } from '../scoring.js';
+import { TrackedRepo } from '../tracker-config.js';
+
+const geth: TrackedRepo = { owner: 'ethereum', repo: 'go-ethereum', description: 'Go Ethereum' };
+const gitlab: TrackedRepo = { owner: 'octant', repo: 'docs', description: 'Docs', platform: 'gitlab' };
+
+function commit(id: string, timestamp: string, repo = 'ethereum/go-ethereum'): ContributionEvent {
+  return { id, type: 'commit', repo, login: 'alice', timestamp, credit: 1 };
+}
+
+const at = (iso: string) => new Date(iso);
+
+describe('EventStore', () => {
+  let dir: string;
+  let store: EventStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'event-store-'));
+    store = await EventStore.open(path.join(dir, 'store.json'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('record', () => {
+    it('extends coverage over an overlapping span and keeps earlier events', () => {
+      store.record(geth, [commit('a', '2025-11-02T00:00:00Z')], at('2025-11-01T00:00:00Z'), at('2025-11-10T00:00:00Z'));
+      store.record(geth, [commit('b', '2025-11-12T00:00:00Z')], at('2025-11-08T00:00:00Z'), at('2025-11-15T00:00:00Z'));
+
+      assert.deepEqual(store.getRepo('Ethereum/Go-Ethereum')?.coverage, {
+        from: '2025-11-01T00:00:00.000Z',
+        to: '2025-11-15T00:00:00.000Z',
+      });
+      assert.deepEqual(store.eventsFor('ethereum/go-ethereum').map(e => e.id).sort(), ['a', 'b']);
+    });
+
+    it('replaces a refetched event instead of duplicating it', () => {
+      store.record(geth, [commit('a', '2025-11-02T00:00:00Z')], at('2025-11-01T00:00:00Z'), at('2025-11-10T00:00:00Z'));
+      store.record(
+        geth,
+        [{ ...commit('a', '2025-11-02T00:00:00Z'), credit: 0.5 }],
+        at('2025-11-01T00:00:00Z'),
+        at('2025-11-10T00:00:00Z')
+      );
+
+      assert.equal(store.size, 1);
+      assert.equal(store.eventsFor('ethereum/go-ethereum')[0].credit, 0.5);
+    });
+
+    it('drops the old events when the new span leaves a gap', () => {
+      store.record(geth, [commit('a', '2025-11-02T00:00:00Z')], at('2025-11-01T00:00:00Z'), at('2025-11-05T00:00:00Z'));
+      store.record(geth, [commit('b', '2025-11-12T00:00:00Z')], at('2025-11-10T00:00:00Z'), at('2025-11-15T00:00:00Z'));
+
+      assert.deepEqual(store.getRepo('ethereum/go-ethereum')?.coverage, {
+        from: '2025-11-10T00:00:00.000Z',
+        to: '2025-11-15T00:00:00.000Z',
+      });
+      assert.deepEqual(store.eventsFor('ethereum/go-ethereum').map(e => e.id), ['b']);
+    });
+  });
+
+  describe('ingest', () => {
+    it('covers a new repository from when the receiver started listening', () => {
+      store.ingest(geth, [commit('a', '2025-11-07T10:00:00Z')], at('2025-11-07T09:00:00Z'), at('2025-11-07T10:00:00Z'));
+
+      assert.deepEqual(store.getRepo('ethereum/go-ethereum')?.coverage, {
+        from: '2025-11-07T09:00:00.000Z',
+        to: '2025-11-07T10:00:00.000Z',
+      });
+      assert.equal(store.size, 1);
+    });
+
+    it('stops coverage at an incomplete delivery', () => {
+      store.ingest(geth, [], at('2025-11-07T09:00:00Z'), at('2025-11-07T10:00:00Z'), false);
+
+      const stored = store.getRepo('ethereum/go-ethereum');
+      assert.equal(stored?.coverage.to, '2025-11-07T09:00:00.000Z');
+      assert.equal(stored?.incompleteSince, '2025-11-07T10:00:00.000Z');
+    });
+
+    it('leaves the coverage of a known repository to extendCoverage', () => {
+      store.record(geth, [], at('2025-11-01T00:00:00Z'), at('2025-11-07T09:00:00Z'));
+      store.ingest(geth, [commit('a', '2025-11-07T10:00:00Z')], at('2025-11-07T09:00:00Z'), at('2025-11-07T10:00:00Z'));
+
+      assert.equal(store.getRepo('ethereum/go-ethereum')?.coverage.to, '2025-11-07T09:00:00.000Z');
+    });
+  });
+
+  describe('extendCoverage', () => {
+    const listeningSince = at('2025-11-07T09:00:00Z');
+    const receivedAt = at('2025-11-07T12:00:00Z');
+
+    it('extends GitHub repositories covered up to when the receiver started', () => {
+      store.record(geth, [], at('2025-11-01T00:00:00Z'), at('2025-11-07T09:30:00Z'));
+      store.extendCoverage(listeningSince, receivedAt);
+
+      assert.equal(store.getRepo('ethereum/go-ethereum')?.coverage.to, receivedAt.toISOString());
+    });
+
+    it('leaves coverage that stopped before the receiver started', () => {
+      store.record(geth, [], at('2025-11-01T00:00:00Z'), at('2025-11-07T08:00:00Z'));
+      store.extendCoverage(listeningSince, receivedAt);
+
+      assert.equal(store.getRepo('ethereum/go-ethereum')?.coverage.to, '2025-11-07T08:00:00.000Z');
+    });
+
+    it('leaves repositories after an incomplete delivery', () => {
+      store.record(geth, [], at('2025-11-01T00:00:00Z'), at('2025-11-07T09:30:00Z'));
+      store.ingest(geth, [], listeningSince, at('2025-11-07T10:00:00Z'), false);
+      store.extendCoverage(listeningSince, receivedAt);
+
+      assert.equal(store.getRepo('ethereum/go-ethereum')?.coverage.to, '2025-11-07T09:30:00.000Z');
+    });
+
+    it('leaves GitLab and Gitea repositories', () => {
+      store.record(gitlab, [], at('2025-11-01T00:00:00Z'), at('2025-11-07T09:30:00Z'));
+      store.extendCoverage(listeningSince, receivedAt);
+
+      assert.equal(store.getRepo('gitlab.com/octant/docs')?.coverage.to, '2025-11-07T09:30:00.000Z');
+    });
+  });
+
+  describe('save', () => {
+    it('round-trips events and coverage', async () => {
+      store.record(geth, [commit('a', '2025-11-02T00:00:00Z')], at('2025-11-01T00:00:00Z'), at('2025-11-10T00:00:00Z'));
+      await store.save(at('2025-11-10T00:00:00Z'));
+
+      const reopened = await EventStore.open(store.path);
+      assert.equal(reopened.size, 1);
+      assert.equal(reopened.updatedAt?.toISOString(), '2025-11-10T00:00:00.000Z');
+      assert.deepEqual(reopened.getRepo('ethereum/go-ethereum'), store.getRepo('ethereum/go-ethereum'));
+    });
+
+    it('refuses to overwrite a store saved by another run since it was opened', async () => {
+      const other = await EventStore.open(store.path);
+      other.record(geth, [commit('a', '2025-11-02T00:00:00Z')], at('2025-11-01T00:00:00Z'), at('2025-11-10T00:00:00Z'));
+      await other.save(at('2025-11-10T00:00:00Z'));
+
+      await assert.rejects(store.save(at('2025-11-11T00:00:00Z')), /was saved by another run/);
+      assert.equal((await EventStore.open(store.path)).size, 1);
+    });
+  });
+});
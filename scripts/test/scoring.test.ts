@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ContributionEvent,
+  RepoResult,
+  decayMultiplier,
+  getRepoMultiplier,
+  mergeContributors,
+  scoreEvents,
+} from '../scoring.js';
+import { Config, DecayConfig, TrackedRepo } from '../tracker-config.js';
+import { TrackingWindow } from '../tracking-window.js';
+
+const scoring: Config['scoring'] = { commitWeight: 1, prWeight: 3, issueWeight: 2, reviewWeight: 2 };
+const window: TrackingWindow = { from: new Date('2025-11-01T00:00:00Z'), to: new Date('2025-11-11T00:00:00Z') };
+
+const repo = (name: string, extra: Partial<TrackedRepo> = {}): TrackedRepo => ({
+  owner: 'octant',
+  repo: name,
+  description: name,
+  ...extra,
+});
+
+function event(
+  type: ContributionEvent['type'],
+  login: string,
+  timestamp: string,
+  extra: Partial<ContributionEvent> = {}
+): ContributionEvent {
+  return { id: `${login}-${timestamp}`, type, repo: 'octant/app', login, timestamp, credit: 1, ...extra };
+}
+
+describe('decayMultiplier', () => {
+  const now = new Date('2025-11-11T00:00:00Z');
+
+  it('halves the worth every half-life', () => {
+    const decay: DecayConfig = { type: 'exponential', halfLifeDays: 5 };
+    assert.equal(decayMultiplier(decay, '2025-11-11T00:00:00Z', now), 1);
+    assert.equal(decayMultiplier(decay, '2025-11-06T00:00:00Z', now), 0.5);
+    assert.equal(decayMultiplier(decay, '2025-11-01T00:00:00Z', now), 0.25);
+  });
+
+  it('never raises the worth of a contribution dated after now', () => {
+    assert.equal(decayMultiplier({ type: 'exponential', halfLifeDays: 5 }, '2025-11-12T00:00:00Z', now), 1);
+  });
+
+  it('takes the first step covering the age, and nothing past the last', () => {
+    const decay: DecayConfig = {
+      type: 'step',
+      steps: [
+        { maxAgeDays: 30, multiplier: 0.5 },
+        { maxAgeDays: 7, multiplier: 1 },
+      ],
+    };
+    assert.equal(decayMultiplier(decay, '2025-11-05T00:00:00Z', now), 1);
+    assert.equal(decayMultiplier(decay, '2025-10-20T00:00:00Z', now), 0.5);
+    assert.equal(decayMultiplier(decay, '2025-09-01T00:00:00Z', now), 0);
+  });
+
+  it('leaves scores alone without decay', () => {
+    assert.equal(decayMultiplier(undefined, '2020-01-01T00:00:00Z', now), 1);
+    assert.equal(decayMultiplier({ type: 'none' }, '2020-01-01T00:00:00Z', now), 1);
+  });
+});
+
+describe('scoreEvents', () => {
+  it('weights each event and skips those outside the window', () => {
+    const scores = scoreEvents(
+      repo('app'),
+      [
+        event('commit', 'alice', '2025-11-02T00:00:00Z'),
+        event('pr', 'alice', '2025-11-03T00:00:00Z', { metadata: { outcome: 'merged' } }),
+        event('issue', 'alice', '2025-10-20T00:00:00Z'),
+        event('review', 'alice', '2025-11-11T00:00:00Z'),
+      ],
+      scoring,
+      window
+    );
+
+    const alice = scores.get('alice')!;
+    assert.equal(alice.commits, 1);
+    assert.equal(alice.prsMerged, 1);
+    assert.equal(alice.issues, 0);
+    assert.equal(alice.reviews, 0);
+    assert.equal(alice.totalScore, 4);
+  });
+
+  it('decays events from the end of the window', () => {
+    const scores = scoreEvents(
+      repo('app'),
+      [event('commit', 'alice', '2025-11-10T00:00:00Z'), event('commit', 'alice', '2025-11-01T00:00:00Z')],
+      { ...scoring, decay: { type: 'exponential', halfLifeDays: 10 } },
+      window
+    );
+
+    const alice = scores.get('alice')!;
+    assert.equal(alice.commits, 2);
+    assert.ok(Math.abs(alice.totalScore! - (Math.pow(0.5, 0.1) + 0.5)) < 1e-9);
+  });
+
+  it('credits co-authors their configured share', () => {
+    const scores = scoreEvents(
+      repo('app'),
+      [event('commit', 'bob', '2025-11-02T00:00:00Z', { metadata: { coAuthor: true } })],
+      { ...scoring, coAuthorShare: 0.25 },
+      window
+    );
+    assert.equal(scores.get('bob')!.totalScore, 0.25);
+  });
+
+  it('caps categories before capping the repository total', () => {
+    const commits = [1, 2, 3, 4, 5, 6].map(day => event('commit', 'alice', `2025-11-0${day}T00:00:00Z`));
+    const capped = scoreEvents(repo('app'), commits, { ...scoring, categoryLimits: { commits: { cap: 4 } } }, window);
+    assert.equal(capped.get('alice')!.totalScore, 4);
+    assert.equal(capped.get('alice')!.rawScore, 6);
+
+    const limited = scoreEvents(repo('app'), commits, { ...scoring, maxRepoScore: 3 }, window);
+    assert.equal(limited.get('alice')!.totalScore, 3);
+  });
+});
+
+describe('repo normalization', () => {
+  const result = (tracked: TrackedRepo, scores: Record<string, number>): RepoResult => ({
+    repo: tracked,
+    contributors: new Map(Object.entries(scores).map(([github, totalScore]) => [github, { github, totalScore }])),
+  });
+
+  it('applies the repo weight as is without normalization', () => {
+    assert.equal(getRepoMultiplier(result(repo('app', { weight: 2 }), { alice: 30 }), scoring), 2);
+  });
+
+  it('rescales an activity-normalized repo to share the budget', () => {
+    const busy = result(repo('busy', { normalization: 'activity' }), { alice: 300, bob: 100 });
+    assert.equal(getRepoMultiplier(busy, scoring), 0.25);
+    assert.equal(getRepoMultiplier(busy, { ...scoring, normalizedRepoBudget: 40 }), 0.1);
+    assert.equal(getRepoMultiplier(result(repo('quiet', { normalization: 'activity' }), {}), scoring), 0);
+  });
+
+  it('merges per-repo scores after normalization', () => {
+    const merged = mergeContributors(
+      [
+        result(repo('busy', { normalization: 'activity' }), { alice: 300, bob: 100 }),
+        result(repo('small', { normalization: 'activity', weight: 0.5 }), { alice: 5 }),
+        result(repo('plain'), { bob: 7 }),
+      ],
+      scoring,
+      window.to
+    );
+
+    assert.equal(merged.get('alice')!.totalScore, 125);
+    assert.deepEqual(merged.get('alice')!.repoScores['octant/small'], { raw: 5, adjusted: 50 });
+    assert.equal(merged.get('bob')!.totalScore, 32);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ethers } from 'ethers';
+import { CLAIM_HEADER, buildClaimMessage, parseClaim, verifyClaimSignature } from '../wallet-claims.js';
+
+const wallet = ethers.Wallet.createRandom();
+const other = ethers.Wallet.createRandom();
+const issuedAt = new Date('2025-11-07T10:00:00Z');
+
+async function publishedClaim(login: string, address: string, signer = wallet): Promise<string> {
+  const message = buildClaimMessage(login, address, issuedAt);
+  return `${message}\nSignature: ${await signer.signMessage(message)}`;
+}
+
+describe('parseClaim', () => {
+  it('reads a claim out of a Markdown code block with CRLF line endings', async () => {
+    const text = `My wallet:\r\n\r\n\`\`\`\r\n${(await publishedClaim('alice', wallet.address)).replace(/\n/g, '\r\n')}\r\n\`\`\`\r\n`;
+    const claim = parseClaim(text);
+
+    assert.ok(claim);
+    assert.equal(claim.login, 'alice');
+    assert.equal(claim.address, wallet.address);
+    assert.equal(claim.issuedAt, issuedAt.toISOString());
+    assert.equal(claim.message, buildClaimMessage('alice', wallet.address, issuedAt));
+  });
+
+  it('returns null without the header or a signature', async () => {
+    assert.equal(parseClaim('GitHub: alice\nAddress: 0x0'), null);
+    assert.equal(parseClaim(buildClaimMessage('alice', wallet.address, issuedAt)), null);
+  });
+
+  it('returns null when a field is out of place', () => {
+    const text = [CLAIM_HEADER, `Address: ${wallet.address}`, 'GitHub: alice', 'Issued: x', 'Signature: 0x00'].join('\n');
+    assert.equal(parseClaim(text), null);
+  });
+});
+
+describe('verifyClaimSignature', () => {
+  it('returns the checksummed address of a valid claim', async () => {
+    const claim = parseClaim(await publishedClaim('alice', wallet.address.toLowerCase()))!;
+    assert.equal(verifyClaimSignature({ ...claim, address: wallet.address.toLowerCase() }), wallet.address);
+  });
+
+  it('rejects a claim signed by another wallet', async () => {
+    const claim = parseClaim(await publishedClaim('alice', wallet.address, other))!;
+    assert.throws(() => verifyClaimSignature(claim), /Signature was made by/);
+  });
+
+  it('rejects a signed message that was edited afterwards', async () => {
+    const claim = parseClaim(await publishedClaim('alice', wallet.address))!;
+    assert.throws(
+      () => verifyClaimSignature({ ...claim, login: 'mallory', message: claim.message.replace('alice', 'mallory') }),
+      /Signature was made by/
+    );
+  });
+
+  it('rejects an invalid address, date or signature', async () => {
+    const claim = parseClaim(await publishedClaim('alice', wallet.address))!;
+    assert.throws(() => verifyClaimSignature({ ...claim, address: '0x1234' }), /invalid address/);
+    assert.throws(() => verifyClaimSignature({ ...claim, issuedAt: 'yesterday' }), /invalid Issued date/);
+    assert.throws(() => verifyClaimSignature({ ...claim, signature: '0xdeadbeef' }), /Malformed signature/);
+  });
+});
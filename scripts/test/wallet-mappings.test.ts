@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { WalletLogEntry, effectiveAt, resolveWalletMappings } from '../wallet-mappings.js';
+
+const A = '0x00000000000000000000000000000000000000aa';
+const B = '0x00000000000000000000000000000000000000bb';
+
+function entry(login: string, newAddress: string | null, recordedAt: string): WalletLogEntry {
+  return { login, oldAddress: null, newAddress, recordedAt, evidence: { type: 'manual', note: 'test' } };
+}
+
+describe('effectiveAt', () => {
+  it('waits until the start of the next epoch', () => {
+    // Epochs start on Thursdays at 00:00 UTC
+    assert.equal(
+      effectiveAt(new Date('2025-11-08T12:00:00Z'), { cooldownEpochs: 1 }).toISOString(),
+      '2025-11-13T00:00:00.000Z'
+    );
+  });
+
+  it('takes the later of the day and epoch cool-downs', () => {
+    assert.equal(
+      effectiveAt(new Date('2025-11-12T12:00:00Z'), { cooldownEpochs: 1, cooldownDays: 3 }).toISOString(),
+      '2025-11-15T12:00:00.000Z'
+    );
+  });
+});
+
+describe('resolveWalletMappings', () => {
+  const cooldown = { cooldownDays: 7 };
+
+  it('applies a first wallet right away', () => {
+    const { wallets, pending } = resolveWalletMappings(
+      [entry('alice', A, '2025-11-01T00:00:00Z')],
+      new Date('2025-11-01T00:00:01Z'),
+      cooldown
+    );
+    assert.equal(wallets.get('alice'), A);
+    assert.deepEqual(pending, []);
+  });
+
+  it('keeps paying the old wallet while a change cools down', () => {
+    const log = [entry('alice', A, '2025-11-01T00:00:00Z'), entry('alice', B, '2025-11-02T00:00:00Z')];
+
+    const during = resolveWalletMappings(log, new Date('2025-11-05T00:00:00Z'), cooldown);
+    assert.equal(during.wallets.get('alice'), A);
+    assert.equal(during.pending.length, 1);
+    assert.equal(during.pending[0].to, B);
+    assert.equal(during.pending[0].effectiveAt, '2025-11-09T00:00:00.000Z');
+
+    const after = resolveWalletMappings(log, new Date('2025-11-09T00:00:00Z'), cooldown);
+    assert.equal(after.wallets.get('alice'), B);
+    assert.deepEqual(after.pending, []);
+  });
+
+  it('makes a removal wait out the cool-down', () => {
+    const log = [entry('alice', A, '2025-11-01T00:00:00Z'), entry('alice', null, '2025-11-02T00:00:00Z')];
+
+    assert.equal(resolveWalletMappings(log, new Date('2025-11-05T00:00:00Z'), cooldown).wallets.get('alice'), A);
+    assert.equal(resolveWalletMappings(log, new Date('2025-11-10T00:00:00Z'), cooldown).wallets.has('alice'), false);
+  });
+
+  it('makes a wallet added after a removal wait too', () => {
+    const log = [
+      entry('alice', A, '2025-11-01T00:00:00Z'),
+      entry('alice', null, '2025-11-02T00:00:00Z'),
+      entry('alice', B, '2025-11-10T00:00:00Z'),
+    ];
+
+    const during = resolveWalletMappings(log, new Date('2025-11-10T00:00:01Z'), cooldown);
+    assert.equal(during.wallets.has('alice'), false);
+    assert.equal(during.pending[0].to, B);
+
+    assert.equal(resolveWalletMappings(log, new Date('2025-11-17T00:00:00Z'), cooldown).wallets.get('alice'), B);
+  });
+
+  it('replays entries by date, so a later migrated mapping is not a first wallet', () => {
+    // Legacy mappings are read first but dated by the file's mtime
+    const log = [entry('alice', B, '2025-11-03T00:00:00Z'), entry('alice', A, '2025-11-01T00:00:00Z')];
+
+    const { wallets, pending } = resolveWalletMappings(log, new Date('2025-11-04T00:00:00Z'), cooldown);
+    assert.equal(wallets.get('alice'), A);
+    assert.equal(pending[0].to, B);
+  });
+
+  it('ignores entries recorded after the moment asked for', () => {
+    const { wallets, pending } = resolveWalletMappings(
+      [entry('alice', A, '2025-11-05T00:00:00Z')],
+      new Date('2025-11-04T00:00:00Z'),
+      cooldown
+    );
+    assert.equal(wallets.size, 0);
+    assert.deepEqual(pending, []);
+  });
+
+  it('matches logins case-insensitively', () => {
+    const log = [entry('Alice', A, '2025-11-01T00:00:00Z'), entry('alice', B, '2025-11-02T00:00:00Z')];
+    const { wallets } = resolveWalletMappings(log, new Date('2025-11-03T00:00:00Z'), cooldown);
+    assert.deepEqual([...wallets.values()], [A]);
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { before, describe, it } from 'node:test';
+import { AuthorResolver } from '../author-resolution.js';
+import { Config } from '../tracker-config.js';
+import { DeliveryNormalizer, DeliveryResult, WebhookDelivery, deliveryId, verifySignature } from '../webhooks.js';
+
+const FIXTURES_DIR = path.join(process.cwd(), '../data/fixtures/webhooks');
+
+const config: Config = {
+  trackedRepos: [{ owner: 'ethereum', repo: 'go-ethereum', description: 'Go Ethereum' }],
+  scoring: { commitWeight: 1, prWeight: 3, issueWeight: 2, reviewWeight: 2 },
+  timeFrame: { months: 3, description: 'Last 3 months' },
+  minScore: 1,
+};
+
+function ingested(result: DeliveryResult) {
+  assert.equal(result.status, 'ingested', result.status === 'ignored' ? result.reason : '');
+  return result as Extract<DeliveryResult, { status: 'ingested' }>;
+}
+
+describe('DeliveryNormalizer', () => {
+  // Recorded deliveries by X-GitHub-Delivery prefix
+  const deliveries = new Map<string, WebhookDelivery>();
+  const normalizer = new DeliveryNormalizer(config, new AuthorResolver(new Map(), 0.5));
+  const normalize = (prefix: string) => normalizer.normalize(deliveries.get(prefix)!);
+
+  before(async () => {
+    for (const file of await fs.readdir(FIXTURES_DIR)) {
+      const delivery: WebhookDelivery = JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, file), 'utf-8'));
+      deliveries.set(delivery.id.slice(0, 8), delivery);
+    }
+  });
+
+  it('turns a push to the default branch into commit events, crediting co-authors', () => {
+    const result = ingested(normalize('7d1c2a40'));
+
+    assert.equal(result.repo.repo, 'go-ethereum');
+    assert.equal(result.missing, null);
+    assert.deepEqual(
+      result.events.map(e => [e.type, e.login, e.metadata?.coAuthor ?? false]),
+      [
+        ['commit', 'alice', false],
+        ['commit', 'bob', true],
+      ]
+    );
+    assert.equal(result.events[0].metadata?.categories, undefined);
+  });
+
+  it('ignores pushes to other branches', () => {
+    assert.deepEqual(normalize('7d1c2a41'), { status: 'ignored', reason: 'push to refs/heads/feature/snap-sync' });
+  });
+
+  it('flags a push that lists fewer commits than it carried', () => {
+    const push = deliveries.get('7d1c2a40')!;
+    const result = ingested(normalizer.normalize({ ...push, payload: { ...push.payload, size: 3 } }));
+    assert.equal(result.missing, 'push lists 1 of 3 commits');
+  });
+
+  it('turns a pull request into a PR event with its labels', () => {
+    const [event] = ingested(normalize('8e2d3b50')).events;
+
+    assert.equal(event.type, 'pr');
+    assert.equal(event.login, 'frank');
+    assert.equal(event.metadata?.outcome, 'open');
+    assert.deepEqual(event.metadata?.labels, ['security']);
+  });
+
+  it('turns a review into a review event with its state', () => {
+    const [event] = ingested(normalize('9f3e4c60')).events;
+
+    assert.equal(event.type, 'review');
+    assert.equal(event.login, 'bob');
+    assert.equal(event.metadata?.reviewState, 'APPROVED');
+  });
+
+  it('turns an opened issue into an issue event', () => {
+    const result = ingested(normalize('a04f5d70'));
+    assert.deepEqual(
+      result.events.map(e => [e.type, e.login, e.id]),
+      [['issue', 'eve', '31261']]
+    );
+    assert.deepEqual(result.removed, []);
+  });
+
+  it('removes a deleted issue', () => {
+    const result = ingested(normalize('a04f5d71'));
+    assert.deepEqual(result.events, []);
+    assert.deepEqual(
+      result.removed.map(e => [e.type, e.login, e.id]),
+      [['issue', 'dave', '31250']]
+    );
+  });
+
+  it('ignores repositories that are not tracked', () => {
+    assert.deepEqual(normalize('b1506e80'), {
+      status: 'ignored',
+      reason: 'foundry-rs/foundry-fixtures is not tracked',
+    });
+  });
+
+  it('ignores unsupported events', () => {
+    const push = deliveries.get('7d1c2a40')!;
+    assert.equal(normalizer.normalize({ ...push, event: 'star' }).status, 'ignored');
+  });
+});
+
+describe('verifySignature', () => {
+  const body = Buffer.from('{"zen":"Keep it logically awesome."}');
+  const sign = (secret: string) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  it('accepts the signature made with the shared secret', () => {
+    assert.equal(verifySignature('s3cret', body, sign('s3cret')), true);
+  });
+
+  it('rejects a missing, foreign or malformed signature', () => {
+    assert.equal(verifySignature('s3cret', body, undefined), false);
+    assert.equal(verifySignature('s3cret', body, sign('other')), false);
+    assert.equal(verifySignature('s3cret', body, 'sha256=abc'), false);
+    assert.equal(verifySignature('s3cret', body, sign('s3cret').replace('sha256=', 'sha1=')), false);
+  });
+});
+
+describe('deliveryId', () => {
+  it('keeps a GUID and replaces anything else', () => {
+    assert.equal(deliveryId('7d1c2a40-bcd1-11f0-8e2b-1f1b0a6f0a01'), '7d1c2a40-bcd1-11f0-8e2b-1f1b0a6f0a01');
+    assert.equal(deliveryId('../../etc/passwd'), 'unknown');
+    assert.equal(deliveryId(undefined), 'unknown');
+  });
+});
@@ -0,0 +1,257 @@
+import { Octokit } from '@octokit/rest';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CommitRecord,
+  ContributionSource,
+  IssueCommentRecord,
+  IssueRecord,
+  OrgRepoRecord,
+  PullRequestRecord,
+  RECORD_KINDS,
+  RecordKind,
+  RecordTypes,
+  ReviewCommentRecord,
+  ReviewRecord,
+  isInWindow,
+} from './contribution-sources.js';
+
+/**
+ * TRACKER CACHE
+ *
+ * Local state that lets the tracker avoid refetching a repository's whole
+ * history on every run:
+ * - IncrementalSource keeps every record in the window plus a per-repo
+ *   cursor, and only asks the live source for what changed since then.
+ * - HttpCache replays GET responses with If-None-Match / If-Modified-Since,
+ *   so unchanged pages come back as 304s that don't count against the
+ *   rate limit. Responses no run asked for in a while are evicted.
+ */
+
+// Types
+interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  data: unknown;
+  /** Last time a run requested the URL (ms since the epoch) */
+  usedAt?: number;
+}
+
+interface KindState<K extends RecordKind> {
+  /** Earliest date the stored records cover */
+  windowStart: string;
+  /** Start of the last successful fetch */
+  cursor: string;
+  records: RecordTypes[K][];
+}
+
+type RepoState = { [K in RecordKind]?: KindState<K> };
+
+interface TrackerState {
+  version: 1;
+  repos: Record<string, RepoState>;
+}
+
+export const DEFAULT_CACHE_DIR = '../data/tracker-cache';
+
+/** Responses not requested for this long are dropped from the HTTP cache */
+const HTTP_CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Most responses the HTTP cache keeps, least recently used dropped first */
+const HTTP_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * How far before the cursor commits are fetched again. Commits are listed
+ * by commit date, and one pushed or merged after a run can carry an
+ * earlier date (merged branches, `git commit --date`).
+ */
+const COMMIT_CURSOR_OVERLAP_MS = 14 * 24 * 60 * 60 * 1000;
+
+async function readJson<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return fallback;
+    throw new Error(`Could not read ${filePath}: ${error.message}`);
+  }
+}
+
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2));
+}
+
+/**
+ * ETag / Last-Modified cache for Octokit GET requests
+ *
+ * Saving evicts responses no run requested in HTTP_CACHE_MAX_AGE_MS and
+ * keeps at most HTTP_CACHE_MAX_ENTRIES of the most recently used.
+ */
+export class HttpCache {
+  private dirty = false;
+
+  constructor(
+    private filePath: string,
+    private entries: Record<string, CachedResponse>
+  ) {}
+
+  /**
+   * Load the cache from disk; `fresh` starts from an empty cache
+   */
+  static async open(filePath: string, fresh = false): Promise<HttpCache> {
+    const entries = fresh ? {} : await readJson<Record<string, CachedResponse>>(filePath, {});
+    return new HttpCache(filePath, entries);
+  }
+
+  install(octokit: Octokit): void {
+    octokit.hook.wrap('request', async (request, options) => {
+      const { method, url } = octokit.request.endpoint.parse(options);
+      if (method !== 'GET') return request(options);
+
+      const cached = this.entries[url];
+      if (cached) {
+        cached.usedAt = Date.now();
+        this.dirty = true;
+        options.headers = {
+          ...options.headers,
+          ...(cached.etag ? { 'if-none-match': cached.etag } : {}),
+          ...(cached.lastModified ? { 'if-modified-since': cached.lastModified } : {}),
+        };
+      }
+
+      try {
+        const response = await request(options);
+        const etag = response.headers.etag;
+        const lastModified = response.headers['last-modified'];
+        if (etag || lastModified) {
+          this.entries[url] = { etag, lastModified, data: response.data, usedAt: Date.now() };
+          this.dirty = true;
+        }
+        return response;
+      } catch (error: any) {
+        if (error.status === 304 && cached) {
+          return { status: 200, url, headers: error.response?.headers ?? {}, data: cached.data };
+        }
+        throw error;
+      }
+    });
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+    this.evict(Date.now());
+    await writeJson(this.filePath, this.entries);
+    this.dirty = false;
+  }
+
+  private evict(now: number): void {
+    const kept = Object.entries(this.entries)
+      .filter(([, entry]) => now - (entry.usedAt ?? 0) <= HTTP_CACHE_MAX_AGE_MS)
+      .sort(([, a], [, b]) => (b.usedAt ?? 0) - (a.usedAt ?? 0))
+      .slice(0, HTTP_CACHE_MAX_ENTRIES);
+    this.entries = Object.fromEntries(kept);
+  }
+}
+
+/**
+ * Wraps a live source with a persisted per-repo cursor
+ *
+ * Each kind of record is fetched from the later of the window start and
+ * the last cursor, merged into the stored records by id (so an item that
+ * was updated again is replaced rather than counted twice), and pruned to
+ * the current window. Widening the window or passing `full` refetches the
+ * whole window. Commits are fetched from COMMIT_CURSOR_OVERLAP_MS before
+ * the cursor, since their dates can trail when they were pushed.
+ */
+export class IncrementalSource implements ContributionSource {
+  readonly name: string;
+  readonly referenceDate?: Date;
+  private startedAt: Date;
+
+  constructor(
+    private inner: ContributionSource,
+    private statePath: string,
+    private state: TrackerState,
+    private full: boolean
+  ) {
+    this.name = `${inner.name} (${full ? 'full' : 'incremental'})`;
+    this.referenceDate = inner.referenceDate;
+    this.startedAt = inner.referenceDate ?? new Date();
+  }
+
+  static async open(inner: ContributionSource, statePath: string, full: boolean): Promise<IncrementalSource> {
+    const state = await readJson<TrackerState>(statePath, { version: 1, repos: {} });
+    return new IncrementalSource(inner, statePath, state, full);
+  }
+
+  private async sync<K extends RecordKind>(
+    kind: K,
+    owner: string,
+    repo: string,
+    since: Date,
+    fetch: (from: Date) => Promise<RecordTypes[K][]>
+  ): Promise<RecordTypes[K][]> {
+    const repoKey = `${owner}/${repo}`;
+    const repoState: RepoState = (this.state.repos[repoKey] ??= {});
+    const previous = repoState[kind] as KindState<K> | undefined;
+
+    const incremental = !this.full && previous !== undefined && new Date(previous.windowStart) <= since;
+    const overlap = kind === 'commits' ? COMMIT_CURSOR_OVERLAP_MS : 0;
+    const cursor = incremental ? new Date(new Date(previous.cursor).getTime() - overlap) : since;
+    const from = cursor > since ? cursor : since;
+
+    const fresh = await fetch(from);
+
+    const { key } = RECORD_KINDS[kind];
+    const byKey = new Map<string, RecordTypes[K]>();
+    if (incremental) {
+      for (const record of previous.records) byKey.set(key(record), record);
+    }
+    for (const record of fresh) byKey.set(key(record), record);
+
+    const records = [...byKey.values()].filter(record => isInWindow(kind, record, since));
+    (repoState as Record<K, KindState<K>>)[kind] = {
+      windowStart: since.toISOString(),
+      cursor: this.startedAt.toISOString(),
+      records,
+    };
+
+    return records;
+  }
+
+  async listCommits(owner: string, repo: string, since: Date): Promise<CommitRecord[]> {
+    return this.sync('commits', owner, repo, since, from => this.inner.listCommits(owner, repo, from));
+  }
+
+  async listPullRequests(owner: string, repo: string, since: Date): Promise<PullRequestRecord[]> {
+    return this.sync('pulls', owner, repo, since, from => this.inner.listPullRequests(owner, repo, from));
+  }
+
+  async listIssues(owner: string, repo: string, since: Date): Promise<IssueRecord[]> {
+    return this.sync('issues', owner, repo, since, from => this.inner.listIssues(owner, repo, from));
+  }
+
+  async listReviews(owner: string, repo: string, since: Date): Promise<ReviewRecord[]> {
+    return this.sync('reviews', owner, repo, since, from => this.inner.listReviews(owner, repo, from));
+  }
+
+  async listReviewComments(owner: string, repo: string, since: Date): Promise<ReviewCommentRecord[]> {
+    return this.sync('reviewComments', owner, repo, since, from =>
+      this.inner.listReviewComments(owner, repo, from)
+    );
+  }
+
+  async listIssueComments(owner: string, repo: string, since: Date): Promise<IssueCommentRecord[]> {
+    return this.sync('issueComments', owner, repo, since, from =>
+      this.inner.listIssueComments(owner, repo, from)
+    );
+  }
+
+  async listOrgRepos(org: string): Promise<OrgRepoRecord[]> {
+    return this.inner.listOrgRepos(org);
+  }
+
+  async close(): Promise<void> {
+    await writeJson(this.statePath, this.state);
+    await this.inner.close?.();
+  }
+}
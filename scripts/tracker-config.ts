@@ -0,0 +1,224 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ExclusionConfig } from './exclusions.js';
+import { SchedulerOptions } from './request-scheduler.js';
+
+/**
+ * TRACKER CONFIGURATION
+ *
+ * Shape of scripts/config.json, shared by the tracker and the scripts
+ * that work from its output.
+ */
+
+// Types
+export type Platform = 'github' | 'gitlab' | 'gitea';
+
+export interface TrackedRepo {
+  /** Owner, or the group path on GitLab (`group/subgroup`) */
+  owner: string;
+  repo: string;
+  description: string;
+  /** Where the repo is hosted (default github) */
+  platform?: Platform;
+  /** Host of a GitLab or Gitea instance (default gitlab.com; required for gitea) */
+  host?: string;
+  /** Multiplier applied to every score earned in this repo (default 1) */
+  weight?: number;
+  /**
+   * `activity` rescales the repo so its contributors share
+   * scoring.normalizedRepoBudget points, whatever the repo's volume
+   */
+  normalization?: 'none' | 'activity';
+  /** Category → path globs for this repo, replacing commitClassification.paths */
+  commitPaths?: Record<string, string[]>;
+  /** Label multipliers for this repo, on top of scoring.labelMultipliers */
+  labelMultipliers?: Record<string, number>;
+}
+
+export interface TrackedOrg {
+  org: string;
+  /** Repo name globs to track (default: every repo) */
+  include?: string[];
+  /** Repo name globs to skip, applied after include */
+  exclude?: string[];
+  includeArchived?: boolean;
+  includeForks?: boolean;
+  /** Only track repos tagged with at least one of these topics */
+  topics?: string[];
+  /** Weight and normalization given to every repo found in the org */
+  weight?: number;
+  normalization?: TrackedRepo['normalization'];
+}
+
+/**
+ * How much older contributions are worth, relative to the reference date
+ *
+ * - exponential: worth halves every `halfLifeDays`
+ * - step: the first step whose `maxAgeDays` covers the age sets the
+ *   multiplier; anything older than the last step is worth nothing
+ */
+export type DecayConfig =
+  | { type: 'none' }
+  | { type: 'exponential'; halfLifeDays: number }
+  | { type: 'step'; steps: { maxAgeDays: number; multiplier: number }[] };
+
+/**
+ * Weighting commits by the paths they touch
+ *
+ * Each changed file goes to the first category whose globs match it
+ * (default category otherwise), and a commit is split between categories
+ * by changed lines. Its weight is commitWeight times the share-weighted
+ * scoring.commitCategoryWeights.
+ */
+export interface CommitClassification {
+  /** Category → path globs, e.g. { "docs": ["docs/*", "*.md"] } */
+  paths: Record<string, string[]>;
+  /** Category of files no glob matches (default "other") */
+  defaultCategory?: string;
+  /** Vendored or generated files that never count */
+  ignore?: string[];
+  /** Most changed lines one file contributes to a commit's split */
+  maxFileChurn?: number;
+}
+
+/** Contribution counts that can be capped or bent by a curve */
+export type ScoreCategory = 'commits' | 'prs' | 'issues' | 'reviews' | 'reviewComments' | 'comments';
+
+/**
+ * Diminishing returns for one category, per contributor per repository
+ *
+ * - cap: contributions beyond this count earn nothing
+ * - curve: `sqrt` or `log` make each extra contribution worth less
+ */
+export interface CategoryLimit {
+  cap?: number;
+  curve?: 'linear' | 'sqrt' | 'log';
+}
+
+export interface Config {
+  trackedRepos: TrackedRepo[];
+  trackedOrgs?: TrackedOrg[];
+  scoring: {
+    commitWeight: number;
+    /** Commit category → multiplier on commitWeight (default 1) */
+    commitCategoryWeights?: Record<string, number>;
+    prWeight: number;
+    issueWeight: number;
+    reviewWeight: number;
+    /** Weights for reviews by outcome (default: reviewWeight) */
+    approvalWeight?: number;
+    changeRequestWeight?: number;
+    /** Inline code comments in PR reviews (default 0) */
+    reviewCommentWeight?: number;
+    /** Discussion comments on issues and PRs (default 0) */
+    commentWeight?: number;
+    /** Most inline review comments per PR that score for one contributor */
+    maxReviewCommentsPerPr?: number;
+    /** Most discussion comments per issue/PR that score for one contributor */
+    maxCommentsPerItem?: number;
+    /**
+     * Which PRs count: touched in the window (`updated`, the default),
+     * opened in it (`created`) or merged in it (`merged`)
+     */
+    prCountMode?: PrCountMode;
+    /** Per-outcome PR weights (each defaults to prWeight) */
+    mergedPrWeight?: number;
+    openPrWeight?: number;
+    closedPrWeight?: number;
+    /** Share of a commit credited to each Co-authored-by trailer */
+    coAuthorShare?: number;
+    /** Points shared by the contributors of an `activity`-normalized repo */
+    normalizedRepoBudget?: number;
+    decay?: DecayConfig;
+    categoryLimits?: Partial<Record<ScoreCategory, CategoryLimit>>;
+    /** Most points one contributor can earn in a single repository */
+    maxRepoScore?: number;
+    /**
+     * Label → multiplier for PRs and issues carrying that label (matched
+     * case-insensitively; several matching labels multiply together)
+     */
+    labelMultipliers?: Record<string, number>;
+  };
+  timeFrame: {
+    months: number;
+    description: string;
+  };
+  minScore: number;
+  /** Logins that asked not to be paid; they keep their score but are never eligible */
+  optedOut?: string[];
+  commitClassification?: CommitClassification;
+  exclusions?: Partial<ExclusionConfig>;
+  requests?: Partial<SchedulerOptions>;
+  walletClaims?: WalletClaimConfig;
+  walletValidation?: WalletValidationConfig;
+  walletChanges?: WalletChangesConfig;
+  registrySync?: RegistrySyncConfig;
+}
+
+export type PrCountMode = 'updated' | 'created' | 'merged';
+
+export interface WalletClaimConfig {
+  /** Issue whose comments are accepted as wallet claims (gists always are) */
+  issue?: { owner: string; repo: string; number: number };
+}
+
+export interface WalletValidationConfig {
+  /** Contract addresses that must never be mapped to a contributor */
+  knownContracts?: string[];
+}
+
+/**
+ * Cool-down before a changed or removed wallet applies (see
+ * wallet-mappings.ts). With both set, the later of the two.
+ */
+export interface WalletChangesConfig {
+  cooldownEpochs?: number;
+  cooldownDays?: number;
+}
+
+/**
+ * Block range `npm run sync-registry` reads ContributorRegistered events
+ * from (the registry address comes from deployment-config.json)
+ */
+export interface RegistrySyncConfig {
+  /** First block to scan (default: deploymentBlockNumber) */
+  fromBlock?: number;
+  /** Last block to scan (default: the current block) */
+  toBlock?: number;
+  /** Blocks an event must be buried under to count (default 12) */
+  confirmations?: number;
+  /** Blocks per eth_getLogs query (default 10000) */
+  blockChunk?: number;
+}
+
+/**
+ * Host a tracked repo lives on
+ */
+export function repoHost(repo: TrackedRepo): string {
+  switch (repo.platform ?? 'github') {
+    case 'github':
+      return 'github.com';
+    case 'gitlab':
+      return repo.host || 'gitlab.com';
+    default:
+      if (!repo.host) {
+        throw new Error(`${repo.owner}/${repo.repo}: platform ${repo.platform} needs a host`);
+      }
+      return repo.host;
+  }
+}
+
+/**
+ * Name a tracked repo is stored and reported under: `owner/repo` for
+ * GitHub, prefixed with the host for other platforms
+ */
+export function repoName(repo: TrackedRepo): string {
+  const name = `${repo.owner}/${repo.repo}`;
+  return (repo.platform ?? 'github') === 'github' ? name : `${repoHost(repo)}/${name}`;
+}
+
+// Load configuration
+export async function loadConfig(configPath = path.join(process.cwd(), 'config.json')): Promise<Config> {
+  const configData = await fs.readFile(configPath, 'utf-8');
+  return JSON.parse(configData);
+}
@@ -0,0 +1,101 @@
+/**
+ * TRACKING WINDOW
+ *
+ * The period whose contributions are scored. By default it is the last
+ * `timeFrame.months` months, but a weekly distribution needs exactly one
+ * week, given either as explicit `--from`/`--to` dates or as an epoch id.
+ *
+ * Epochs are weeks counted from the Unix epoch, the same numbering
+ * run-weekly-cycle.ts uses for its week number: epoch N covers
+ * [N * 7 days, (N + 1) * 7 days).
+ */
+
+// Types
+export interface TrackingWindow {
+  from: Date;
+  /** Exclusive end of the window */
+  to: Date;
+  /** Set when the window was selected by epoch id */
+  epoch?: number;
+}
+
+export const EPOCH_LENGTH_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Window covered by a weekly epoch
+ */
+export function epochWindow(epoch: number): TrackingWindow {
+  return {
+    from: new Date(epoch * EPOCH_LENGTH_MS),
+    to: new Date((epoch + 1) * EPOCH_LENGTH_MS),
+    epoch,
+  };
+}
+
+/**
+ * Epoch containing the given date
+ */
+export function epochAt(date: Date): number {
+  return Math.floor(date.getTime() / EPOCH_LENGTH_MS);
+}
+
+/**
+ * Window of the last `months` months up to `now`
+ */
+export function monthsWindow(months: number, now: Date): TrackingWindow {
+  const from = new Date(now);
+  from.setMonth(from.getMonth() - months);
+  return { from, to: now };
+}
+
+function parseDate(name: string, value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date "${value}" (expected YYYY-MM-DD or an ISO timestamp)`);
+  }
+  return date;
+}
+
+/**
+ * Build the window from `--from`/`--to`/`--epoch` values, or null when
+ * none were given
+ */
+export function parseWindow(
+  values: { from?: string; to?: string; epoch?: string },
+  now: Date
+): TrackingWindow | null {
+  if (values.epoch !== undefined) {
+    if (values.from !== undefined || values.to !== undefined) {
+      throw new Error('--epoch cannot be combined with --from/--to');
+    }
+    const epoch = Number(values.epoch);
+    if (!Number.isInteger(epoch) || epoch < 0) {
+      throw new Error(`Invalid --epoch "${values.epoch}" (expected a week number since 1970-01-01)`);
+    }
+    return epochWindow(epoch);
+  }
+
+  if (values.from === undefined) {
+    if (values.to !== undefined) {
+      throw new Error('--to requires --from');
+    }
+    return null;
+  }
+
+  const window = {
+    from: parseDate('from', values.from),
+    to: values.to !== undefined ? parseDate('to', values.to) : now,
+  };
+  if (window.from >= window.to) {
+    throw new Error(`Empty tracking window: ${values.from} is not before ${values.to ?? 'now'}`);
+  }
+  return window;
+}
+
+/**
+ * Whether a timestamp falls inside the window
+ */
+export function isInTrackingWindow(window: TrackingWindow, timestamp: string): boolean {
+  const date = new Date(timestamp);
+  return date >= window.from && date < window.to;
+}
@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IdentityResolver } from './identities.js';
+import { DEFAULT_RUNS_DIR } from './run-history.js';
+import { loadConfig } from './tracker-config.js';
+import { loadWalletMappings } from './wallet-mappings.js';
+import { WalletIssue, validateWallets } from './wallet-validation.js';
+
+/**
+ * VALIDATE WALLETS
+ *
+ * Checks the wallets in effect (see wallet-validation.ts) and exits
+ * non-zero when a mapping is rejected or conflicts:
+ *
+ *   npm run validate-wallets
+ *   npm run validate-wallets -- --epoch=2915   # compare with the run before epoch 2915
+ *   npm run validate-wallets -- --json
+ *   npm run validate-wallets -- --output=wallet-report.json
+ *
+ * Without --epoch, wallets are compared with the latest archived epoch run.
+ * Changes still in their cool-down are listed but not validated yet.
+ */
+
+// Types
+interface ValidateOptions {
+  epoch: number | null;
+  runsDir: string;
+  json: boolean;
+  outputPath: string | null;
+}
+
+const ISSUE_LABELS: Record<WalletIssue['kind'], string> = {
+  'invalid-address': 'Invalid address',
+  'zero-address': 'Zero address',
+  'known-contract': 'Known contract',
+  'shared-wallet': 'Shared wallet',
+  'wallet-changed': 'Wallet changed',
+};
+
+// Parse command line options
+function parseArgs(): ValidateOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const epoch = getArg('epoch');
+  if (epoch !== undefined && !/^\d+$/.test(epoch)) {
+    throw new Error(`Invalid --epoch "${epoch}"`);
+  }
+
+  return {
+    epoch: epoch !== undefined ? Number(epoch) : null,
+    runsDir: path.resolve(getArg('runs') || DEFAULT_RUNS_DIR),
+    json: args.includes('--json'),
+    outputPath: getArg('output') ? path.resolve(getArg('output')!) : null,
+  };
+}
+
+function printIssues(title: string, issues: WalletIssue[]): void {
+  if (issues.length === 0) return;
+  console.log(`\n${title} (${issues.length}):`);
+  issues.forEach(issue => console.log(`   - [${ISSUE_LABELS[issue.kind]}] ${issue.message}`));
+}
+
+// Main function
+async function main() {
+  const options = parseArgs();
+  const config = await loadConfig();
+  const mappings = await loadWalletMappings(config);
+  const identities = await IdentityResolver.load();
+
+  const validation = await validateWallets(mappings.wallets, config, identities, options.epoch, options.runsDir);
+  const report = {
+    checked: validation.checked,
+    valid: validation.wallets.size,
+    normalized: validation.normalized,
+    previousRun: validation.previousRun,
+    rejected: validation.rejected,
+    conflicts: validation.conflicts,
+    pending: mappings.pending,
+  };
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log('🔍 Validating wallet mappings\n');
+    console.log(`   Checked: ${report.checked}`);
+    console.log(`   Valid: ${report.valid} (${report.normalized} normalized to checksummed form)`);
+    console.log(
+      validation.previousRun
+        ? `   Compared with: ${path.basename(validation.previousRun.path)} (epoch ${validation.previousRun.epoch})`
+        : '   Compared with: no archived epoch run, wallet changes not checked'
+    );
+
+    printIssues('❌ REJECTED', validation.rejected);
+    printIssues('⚠️  CONFLICTS', validation.conflicts);
+
+    if (mappings.pending.length > 0) {
+      console.log(`\n⏳ PENDING CHANGES (${mappings.pending.length}):`);
+      mappings.pending.forEach(c => {
+        console.log(`   - ${c.login}: ${c.from ?? 'none'} → ${c.to ?? 'removed'} from ${c.effectiveAt}`);
+      });
+    }
+
+    if (validation.rejected.length === 0 && validation.conflicts.length === 0) {
+      console.log('\n✅ All wallet mappings are valid');
+    }
+  }
+
+  if (options.outputPath) {
+    await fs.writeFile(options.outputPath, JSON.stringify(report, null, 2));
+    if (!options.json) console.log(`\n💾 Report saved to: ${options.outputPath}`);
+  }
+
+  if (validation.rejected.length > 0 || validation.conflicts.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
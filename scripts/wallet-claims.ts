@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+
+/**
+ * WALLET CLAIMS
+ *
+ * A contributor binds their GitHub login to a payout address by signing
+ * this message with the wallet (EIP-191 `personal_sign`):
+ *
+ *   Octant contributor wallet claim
+ *   GitHub: alice
+ *   Address: 0xAbC…
+ *   Issued: 2025-11-07T10:00:00.000Z
+ *
+ * and publishing the message followed by `Signature: 0x…` in a gist or
+ * a comment on the claims issue. The signature proves control of the
+ * address; where it was published proves control of the login.
+ */
+
+// Types
+export interface WalletClaim {
+  login: string;
+  address: string;
+  issuedAt: string;
+  /** The exact text that was signed */
+  message: string;
+  signature: string;
+}
+
+export const CLAIM_HEADER = 'Octant contributor wallet claim';
+
+/**
+ * Message a contributor signs to claim `address` for `login`
+ */
+export function buildClaimMessage(login: string, address: string, issuedAt: Date): string {
+  return [
+    CLAIM_HEADER,
+    `GitHub: ${login}`,
+    `Address: ${ethers.getAddress(address)}`,
+    `Issued: ${issuedAt.toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Find a claim in published text (a gist file or a comment, possibly
+ * wrapped in a Markdown code block), or null if there is none
+ */
+export function parseClaim(text: string): WalletClaim | null {
+  const lines = text.replace(/\r\n/g, '\n').split('\n').map(line => line.trim());
+  const start = lines.indexOf(CLAIM_HEADER);
+  if (start < 0) return null;
+
+  const field = (line: string | undefined, name: string) =>
+    line?.startsWith(`${name}: `) ? line.slice(name.length + 2).trim() : null;
+
+  const login = field(lines[start + 1], 'GitHub');
+  const address = field(lines[start + 2], 'Address');
+  const issuedAt = field(lines[start + 3], 'Issued');
+  const signature = lines
+    .slice(start + 4)
+    .map(line => field(line, 'Signature'))
+    .find(value => value !== null);
+  if (!login || !address || !issuedAt || !signature) return null;
+
+  return {
+    login,
+    address,
+    issuedAt,
+    message: lines.slice(start, start + 4).join('\n'),
+    signature,
+  };
+}
+
+/**
+ * Check that the claim was signed by the address it names, returning the
+ * checksummed address
+ */
+export function verifyClaimSignature(claim: WalletClaim): string {
+  if (!ethers.isAddress(claim.address)) {
+    throw new Error(`Claim names an invalid address "${claim.address}"`);
+  }
+  if (isNaN(new Date(claim.issuedAt).getTime())) {
+    throw new Error(`Claim has an invalid Issued date "${claim.issuedAt}"`);
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(claim.message, claim.signature);
+  } catch (error: any) {
+    throw new Error(`Malformed signature: ${error.shortMessage ?? error.message}`);
+  }
+
+  const address = ethers.getAddress(claim.address);
+  if (signer !== address) {
+    throw new Error(`Signature was made by ${signer}, not by the claimed ${address}`);
+  }
+  return address;
+}
@@ -0,0 +1,251 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Config, WalletChangesConfig } from './tracker-config.js';
+import { EPOCH_LENGTH_MS, epochAt } from './tracking-window.js';
+
+/**
+ * WALLET MAPPINGS
+ *
+ * GitHub login → payout address, kept as an append-only log in
+ * data/wallet-log.jsonl. Every line records one change with the address
+ * it replaces and the evidence for it:
+ *
+ *   {"login":"alice","oldAddress":null,"newAddress":"0x…","recordedAt":"…","evidence":{"type":"claim",…}}
+ *
+ * A login's first wallet applies right away. Every later change
+ * (replacing or removing a wallet, or adding one after a removal) only
+ * applies after the walletChanges cool-down, so a hijacked account can't
+ * redirect a payout that is about to go out; until then the change is
+ * pending and the previous wallet keeps being paid.
+ *
+ * Lines are never rewritten. The old data/wallet-mappings.json, if still
+ * present, is read as the log's starting point.
+ */
+
+// Types
+export interface WalletProvenance {
+  /** EIP-191 message the contributor signed */
+  message: string;
+  signature: string;
+  /** Gist or issue comment the claim was published in */
+  sourceUrl: string;
+  /** When the claim was published on GitHub */
+  publishedAt: string;
+  verifiedAt: string;
+}
+
+export type WalletEvidence =
+  /** Signed claim verified by `npm run claim-wallet` */
+  | { type: 'claim'; provenance: WalletProvenance }
+  /** Change made by a maintainer with `npm run wallets -- --set/--remove` */
+  | { type: 'manual'; note: string }
+  /** Entry carried over from data/wallet-mappings.json */
+  | { type: 'migrated'; source: string }
+  /** ContributorRegistered event imported by `npm run sync-registry` */
+  | { type: 'registry'; registry: string; chainId: number; blockNumber: number; txHash: string };
+
+export interface WalletLogEntry {
+  login: string;
+  oldAddress: string | null;
+  /** null when the wallet was removed */
+  newAddress: string | null;
+  recordedAt: string;
+  evidence: WalletEvidence;
+}
+
+export interface PendingWalletChange {
+  login: string;
+  /** Wallet paid until the change applies */
+  from: string | null;
+  to: string | null;
+  recordedAt: string;
+  effectiveAt: string;
+}
+
+export interface WalletMappings {
+  /** Login → wallet in effect */
+  wallets: Map<string, string>;
+  pending: PendingWalletChange[];
+}
+
+export const DEFAULT_WALLET_LOG_PATH = path.join(process.cwd(), '../data/wallet-log.jsonl');
+export const LEGACY_WALLET_MAPPINGS_PATH = path.join(process.cwd(), '../data/wallet-mappings.json');
+
+/** Cool-down when config.json has no walletChanges section */
+export const DEFAULT_WALLET_COOLDOWN: WalletChangesConfig = { cooldownEpochs: 1 };
+
+/**
+ * When a change recorded at `recordedAt` applies: after `cooldownDays`,
+ * and from the start of the epoch `cooldownEpochs` after the one it was
+ * recorded in. With both set, the later of the two.
+ */
+export function effectiveAt(recordedAt: Date, cooldown: WalletChangesConfig): Date {
+  let effective = recordedAt.getTime();
+  if (cooldown.cooldownDays) {
+    effective = Math.max(effective, recordedAt.getTime() + cooldown.cooldownDays * 24 * 60 * 60 * 1000);
+  }
+  if (cooldown.cooldownEpochs) {
+    effective = Math.max(effective, (epochAt(recordedAt) + cooldown.cooldownEpochs) * EPOCH_LENGTH_MS);
+  }
+  return new Date(effective);
+}
+
+// Read data/wallet-mappings.json as the entries it amounts to
+async function readLegacyMappings(legacyPath: string): Promise<WalletLogEntry[]> {
+  let mappings: Record<string, string | { address: string; provenance?: WalletProvenance }>;
+  let recordedAt: string;
+  try {
+    const data = await fs.readFile(legacyPath, 'utf-8');
+    mappings = data.trim() ? JSON.parse(data) : {};
+    recordedAt = (await fs.stat(legacyPath)).mtime.toISOString();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw new Error(`Could not read ${legacyPath}: ${error.message}`);
+  }
+
+  return Object.entries(mappings).map(([login, entry]) => ({
+    login,
+    oldAddress: null,
+    newAddress: typeof entry === 'string' ? entry : entry.address,
+    recordedAt,
+    evidence:
+      typeof entry !== 'string' && entry.provenance
+        ? { type: 'claim', provenance: entry.provenance }
+        : { type: 'migrated', source: path.basename(legacyPath) },
+  }));
+}
+
+/**
+ * Every logged change, oldest first (legacy mappings first of all)
+ */
+export async function readWalletLog(
+  logPath = DEFAULT_WALLET_LOG_PATH,
+  legacyPath = LEGACY_WALLET_MAPPINGS_PATH
+): Promise<WalletLogEntry[]> {
+  const entries = await readLegacyMappings(legacyPath);
+
+  let data = '';
+  try {
+    data = await fs.readFile(logPath, 'utf-8');
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw new Error(`Could not read ${logPath}: ${error.message}`);
+    }
+  }
+
+  data.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error: any) {
+      throw new Error(`${logPath}:${i + 1}: ${error.message}`);
+    }
+  });
+  return entries;
+}
+
+/**
+ * Latest recorded wallet of a login, pending or not (logins are matched
+ * case-insensitively)
+ */
+export function latestAddress(entries: WalletLogEntry[], login: string): string | null {
+  const latest = entries.filter(e => e.login.toLowerCase() === login.toLowerCase()).pop();
+  return latest?.newAddress ?? null;
+}
+
+/**
+ * Whether a login already has a logged change, so its next one waits
+ * out the cool-down
+ */
+export function hasWalletHistory(entries: WalletLogEntry[], login: string): boolean {
+  return entries.some(e => e.login.toLowerCase() === login.toLowerCase());
+}
+
+/**
+ * Append a change to the log, returning the entry, or null when
+ * `newAddress` is already the login's latest wallet
+ */
+export async function appendWalletChange(
+  login: string,
+  newAddress: string | null,
+  evidence: WalletEvidence,
+  now = new Date(),
+  logPath = DEFAULT_WALLET_LOG_PATH
+): Promise<WalletLogEntry | null> {
+  const oldAddress = latestAddress(await readWalletLog(logPath), login);
+  if ((oldAddress?.toLowerCase() ?? null) === (newAddress?.toLowerCase() ?? null)) {
+    return null;
+  }
+
+  const entry: WalletLogEntry = { login, oldAddress, newAddress, recordedAt: now.toISOString(), evidence };
+  await fs.appendFile(logPath, JSON.stringify(entry) + '\n');
+  return entry;
+}
+
+/**
+ * Replay the log up to `at`: the wallets in effect, and the changes
+ * recorded but still cooling down
+ *
+ * Only a login's very first entry applies right away. Any later one
+ * waits out the cool-down, even after a removal, so removing a wallet
+ * and then adding another can't skip it. Entries are replayed by
+ * recordedAt, which places migrated mappings (dated by the legacy file's
+ * mtime) among the logged changes rather than ahead of them.
+ */
+export function resolveWalletMappings(
+  entries: WalletLogEntry[],
+  at: Date,
+  cooldown: WalletChangesConfig = DEFAULT_WALLET_COOLDOWN
+): WalletMappings {
+  // Case-insensitive login → [login as last written, wallet]
+  const current = new Map<string, [string, string | null]>();
+  const pending: PendingWalletChange[] = [];
+  // Logins with an earlier entry, applied or still pending
+  const seen = new Set<string>();
+
+  const byTime = [...entries].sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+  for (const entry of byTime) {
+    const recordedAt = new Date(entry.recordedAt);
+    if (recordedAt > at) continue;
+
+    const key = entry.login.toLowerCase();
+    const inEffect = current.get(key)?.[1] ?? null;
+    // A first wallet doesn't wait: nobody was being paid before it
+    const effective = seen.has(key) ? effectiveAt(recordedAt, cooldown) : recordedAt;
+    seen.add(key);
+
+    if (effective <= at) {
+      current.set(key, [entry.login, entry.newAddress]);
+      // A change that applied supersedes those still waiting before it
+      for (let i = pending.length - 1; i >= 0; i--) {
+        if (pending[i].login.toLowerCase() === key) pending.splice(i, 1);
+      }
+    } else {
+      pending.push({
+        login: entry.login,
+        from: inEffect,
+        to: entry.newAddress,
+        recordedAt: entry.recordedAt,
+        effectiveAt: effective.toISOString(),
+      });
+    }
+  }
+
+  const wallets = new Map<string, string>();
+  for (const [login, address] of current.values()) {
+    if (address !== null) wallets.set(login, address);
+  }
+  return { wallets, pending };
+}
+
+/**
+ * Wallets in effect at `at`, with the changes still pending
+ */
+export async function loadWalletMappings(
+  config: Config,
+  at = new Date(),
+  logPath = DEFAULT_WALLET_LOG_PATH
+): Promise<WalletMappings> {
+  const entries = await readWalletLog(logPath);
+  return resolveWalletMappings(entries, at, config.walletChanges ?? DEFAULT_WALLET_COOLDOWN);
+}
@@ -0,0 +1,231 @@
+import { ethers } from 'ethers';
+import fs from 'fs/promises';
+import path from 'path';
+import { IdentityResolver } from './identities.js';
+import { ArchivedRun, DEFAULT_RUNS_DIR, listRuns, loadRun } from './run-history.js';
+import { Config } from './tracker-config.js';
+
+/**
+ * WALLET VALIDATION
+ *
+ * Checks wallet mappings before they decide who gets paid:
+ *
+ * - Rejected (the mapping is ignored): addresses that don't parse, the
+ *   zero address, and known contract addresses (our own deployments
+ *   from deployment-config.json plus walletValidation.knownContracts)
+ * - Conflicts (the mapping is kept but needs a human): one wallet mapped
+ *   from logins of different contributors, and a contributor whose
+ *   wallet differs from the one in the last epoch's archived run
+ *
+ * Accepted addresses are normalized to their checksummed form.
+ */
+
+// Types
+export type WalletIssueKind =
+  | 'invalid-address'
+  | 'zero-address'
+  | 'known-contract'
+  | 'shared-wallet'
+  | 'wallet-changed';
+
+export interface WalletIssue {
+  kind: WalletIssueKind;
+  /** Logins involved (canonical contributors for shared-wallet and wallet-changed) */
+  logins: string[];
+  /** Address as written in the mappings file */
+  address: string;
+  /** For wallet-changed: the address paid in the previous epoch */
+  previousAddress?: string;
+  message: string;
+}
+
+export interface WalletValidation {
+  /** Login → checksummed address, rejected mappings left out */
+  wallets: Map<string, string>;
+  checked: number;
+  /** Mappings that were accepted but not written in checksummed form */
+  normalized: number;
+  rejected: WalletIssue[];
+  conflicts: WalletIssue[];
+  /** Archived run the wallet-changed check compared against */
+  previousRun: ArchivedRun | null;
+}
+
+export interface WalletValidationOptions {
+  identities: IdentityResolver;
+  knownContracts?: string[];
+  /** Canonical contributor → wallet paid in the previous epoch */
+  previousWallets?: Map<string, string>;
+  previousRun?: ArchivedRun | null;
+}
+
+/**
+ * Validate login → address mappings
+ */
+export function validateWalletMappings(
+  mappings: Map<string, string>,
+  options: WalletValidationOptions
+): WalletValidation {
+  const { identities } = options;
+  const knownContracts = new Set((options.knownContracts || []).map(address => address.toLowerCase()));
+  const wallets = new Map<string, string>();
+  const rejected: WalletIssue[] = [];
+  const conflicts: WalletIssue[] = [];
+  let normalized = 0;
+
+  for (const [login, raw] of mappings) {
+    const address = typeof raw === 'string' ? raw.trim() : '';
+    if (!ethers.isAddress(address)) {
+      rejected.push({
+        kind: 'invalid-address',
+        logins: [login],
+        address: String(raw),
+        message: `${login}: "${raw}" is not a valid address`,
+      });
+      continue;
+    }
+
+    const checksummed = ethers.getAddress(address);
+    if (checksummed === ethers.ZeroAddress) {
+      rejected.push({
+        kind: 'zero-address',
+        logins: [login],
+        address,
+        message: `${login}: the zero address can't receive payouts`,
+      });
+      continue;
+    }
+    if (knownContracts.has(checksummed.toLowerCase())) {
+      rejected.push({
+        kind: 'known-contract',
+        logins: [login],
+        address,
+        message: `${login}: ${checksummed} is a known contract address, not a contributor wallet`,
+      });
+      continue;
+    }
+
+    if (checksummed !== address) normalized++;
+    wallets.set(login, checksummed);
+  }
+
+  // One wallet for logins of different contributors. Aliases of one
+  // identity sharing a wallet is expected.
+  const contributorsByWallet = new Map<string, Set<string>>();
+  for (const [login, address] of wallets) {
+    const contributors = contributorsByWallet.get(address) ?? new Set<string>();
+    contributors.add(identities.canonical(login));
+    contributorsByWallet.set(address, contributors);
+  }
+  for (const [address, contributors] of contributorsByWallet) {
+    if (contributors.size < 2) continue;
+    const logins = [...contributors].sort();
+    conflicts.push({
+      kind: 'shared-wallet',
+      logins,
+      address,
+      message: `${address} is mapped from ${logins.length} contributors: ${logins.join(', ')}`,
+    });
+  }
+
+  // Wallets that moved since the previous epoch's payout
+  for (const [github, previousAddress] of options.previousWallets || []) {
+    const walletLogin = identities.logins(identities.canonical(github)).find(login => wallets.has(login));
+    const address = walletLogin ? wallets.get(walletLogin)! : null;
+    if (!address || !ethers.isAddress(previousAddress)) continue;
+    if (address === ethers.getAddress(previousAddress)) continue;
+
+    conflicts.push({
+      kind: 'wallet-changed',
+      logins: [github],
+      address,
+      previousAddress,
+      message: `${github}: wallet changed from ${previousAddress} to ${address} since the last epoch`,
+    });
+  }
+
+  return {
+    wallets,
+    checked: mappings.size,
+    normalized,
+    rejected,
+    conflicts,
+    previousRun: options.previousRun ?? null,
+  };
+}
+
+/**
+ * Contract addresses that must never be mapped to a contributor: the
+ * deployed contracts in deployment-config.json and any configured extras
+ */
+export async function loadKnownContracts(
+  config: Config,
+  deploymentConfigPath = path.join(process.cwd(), 'deployment-config.json')
+): Promise<string[]> {
+  const known = [...(config.walletValidation?.knownContracts || [])];
+  try {
+    const deployment = JSON.parse(await fs.readFile(deploymentConfigPath, 'utf-8'));
+    const addresses = [
+      ...Object.values(deployment.contracts || {}),
+      deployment.aave?.poolAddress,
+      deployment.aave?.assetAddress,
+    ];
+    known.push(...addresses.filter((a): a is string => typeof a === 'string' && ethers.isAddress(a)));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw new Error(`Could not read ${deploymentConfigPath}: ${error.message}`);
+    }
+  }
+  return known;
+}
+
+/**
+ * Wallets paid in the last epoch before `epoch` (any archived epoch run
+ * when `epoch` is null), or null when no epoch has been archived yet
+ */
+export async function loadPreviousEpochWallets(
+  epoch: number | null,
+  dir = DEFAULT_RUNS_DIR
+): Promise<{ run: ArchivedRun; wallets: Map<string, string> } | null> {
+  const runs = (await listRuns(dir)).filter(r => r.epoch !== null && (epoch === null || r.epoch < epoch));
+  const run = runs.pop();
+  if (!run) return null;
+
+  const file = await loadRun(run.path);
+  const wallets = new Map(
+    file.contributors.filter(c => c.wallet).map(c => [c.github, c.wallet!] as [string, string])
+  );
+  return { run, wallets };
+}
+
+/**
+ * Validate mappings against known contracts and the previous epoch's run
+ */
+export async function validateWallets(
+  mappings: Map<string, string>,
+  config: Config,
+  identities: IdentityResolver,
+  epoch: number | null,
+  runsDir = DEFAULT_RUNS_DIR
+): Promise<WalletValidation> {
+  const previous = await loadPreviousEpochWallets(epoch, runsDir);
+  return validateWalletMappings(mappings, {
+    identities,
+    knownContracts: await loadKnownContracts(config),
+    previousWallets: previous?.wallets,
+    previousRun: previous?.run,
+  });
+}
+
+/**
+ * One-line-per-issue warnings for the tracker and rescore output
+ */
+export function printWalletIssues(validation: WalletValidation): void {
+  const { rejected, conflicts } = validation;
+  if (rejected.length === 0 && conflicts.length === 0) return;
+
+  console.log(`⚠️  Wallet mappings: ${rejected.length} rejected, ${conflicts.length} conflicts`);
+  rejected.forEach(issue => console.log(`   ❌ ${issue.message}`));
+  conflicts.forEach(issue => console.log(`   ⚠️  ${issue.message}`));
+  console.log('   Run npm run validate-wallets for the full report');
+}
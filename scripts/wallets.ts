@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import { loadConfig } from './tracker-config.js';
+import {
+  DEFAULT_WALLET_COOLDOWN,
+  WalletLogEntry,
+  appendWalletChange,
+  effectiveAt,
+  hasWalletHistory,
+  loadWalletMappings,
+  readWalletLog,
+} from './wallet-mappings.js';
+
+/**
+ * WALLETS
+ *
+ * Shows and edits the wallet log (see wallet-mappings.ts):
+ *
+ *   npm run wallets                                  # wallets in effect and pending changes
+ *   npm run wallets -- --history                     # every logged change
+ *   npm run wallets -- --history=alice               # one login's changes
+ *   npm run wallets -- --set --login=alice --address=0x… --note="Moved to a Safe, confirmed on Discord"
+ *   npm run wallets -- --remove --login=alice --note="Requested by alice in #payouts"
+ *
+ * Contributors should prefer `npm run claim-wallet`, which records the
+ * signed claim as evidence. Manual changes need a --note saying why.
+ */
+
+// Types
+interface WalletsOptions {
+  mode: 'show' | 'history' | 'set' | 'remove';
+  login?: string;
+  address?: string;
+  note?: string;
+}
+
+// Parse command line options
+function parseArgs(): WalletsOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const mode = args.includes('--set')
+    ? 'set'
+    : args.includes('--remove')
+      ? 'remove'
+      : args.some(arg => arg === '--history' || arg.startsWith('--history='))
+        ? 'history'
+        : 'show';
+  const options: WalletsOptions = {
+    mode,
+    login: mode === 'history' ? getArg('history') : getArg('login'),
+    address: getArg('address'),
+    note: getArg('note'),
+  };
+
+  if (mode === 'set' || mode === 'remove') {
+    if (!options.login) {
+      throw new Error(`--${mode} needs --login=<github login>`);
+    }
+    if (!options.note) {
+      throw new Error(`--${mode} needs --note="<why the wallet changes>"`);
+    }
+  }
+  if (mode === 'set' && !(options.address && ethers.isAddress(options.address))) {
+    throw new Error(`--set needs a valid --address, got "${options.address ?? ''}"`);
+  }
+  return options;
+}
+
+function describeEntry(entry: WalletLogEntry): string {
+  const evidence =
+    entry.evidence.type === 'claim'
+      ? `claim ${entry.evidence.provenance.sourceUrl}`
+      : entry.evidence.type === 'manual'
+        ? `manual: ${entry.evidence.note}`
+        : entry.evidence.type === 'registry'
+          ? `registry tx ${entry.evidence.txHash}`
+          : `migrated from ${entry.evidence.source}`;
+  return (
+    `${entry.recordedAt} ${entry.login}: ${entry.oldAddress ?? 'none'} → ` +
+    `${entry.newAddress ?? 'removed'} (${evidence})`
+  );
+}
+
+// Main function
+async function main() {
+  const options = parseArgs();
+  const config = await loadConfig();
+  const cooldown = config.walletChanges ?? DEFAULT_WALLET_COOLDOWN;
+
+  if (options.mode === 'history') {
+    const entries = (await readWalletLog()).filter(
+      e => !options.login || e.login.toLowerCase() === options.login.toLowerCase()
+    );
+    console.log(`📜 ${entries.length} wallet changes\n`);
+    entries.forEach(entry => console.log(`   ${describeEntry(entry)}`));
+    return;
+  }
+
+  if (options.mode === 'set' || options.mode === 'remove') {
+    const now = new Date();
+    const address = options.mode === 'set' ? ethers.getAddress(options.address!) : null;
+    const waits = hasWalletHistory(await readWalletLog(), options.login!);
+    const entry = await appendWalletChange(options.login!, address, { type: 'manual', note: options.note! }, now);
+    if (!entry) {
+      console.log(`✅ ${options.login} already has ${address ?? 'no wallet'}, nothing logged`);
+      return;
+    }
+
+    console.log(`📝 Logged: ${describeEntry(entry)}`);
+    if (waits) {
+      console.log(
+        `⏳ Applies from ${effectiveAt(now, cooldown).toISOString()}, ` +
+          `${entry.oldAddress ? `${entry.oldAddress} is` : 'nothing is'} paid until then`
+      );
+    }
+    return;
+  }
+
+  const { wallets, pending } = await loadWalletMappings(config);
+  console.log(`💰 ${wallets.size} wallets in effect\n`);
+  [...wallets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([login, address]) => console.log(`   ${login}: ${address}`));
+
+  if (pending.length > 0) {
+    console.log(`\n⏳ PENDING CHANGES (${pending.length}):`);
+    pending.forEach(c => {
+      console.log(`   - ${c.login}: ${c.from ?? 'none'} → ${c.to ?? 'removed'} from ${c.effectiveAt}`);
+    });
+  }
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
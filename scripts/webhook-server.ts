@@ -0,0 +1,313 @@
+import fs from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import dotenv from 'dotenv';
+import { AuthorResolver } from './author-resolution.js';
+import { DEFAULT_EVENT_STORE_PATH, EventStore } from './event-store.js';
+import { loadConfig, repoName } from './tracker-config.js';
+import {
+  DeliveryNormalizer,
+  DeliveryResult,
+  SUPPORTED_WEBHOOK_EVENTS,
+  WebhookDelivery,
+  deliveryId,
+  verifySignature,
+} from './webhooks.js';
+
+dotenv.config({ path: '../.env' });
+
+/**
+ * WEBHOOK RECEIVER
+ *
+ * Local HTTP server for GitHub webhook deliveries (push, pull_request,
+ * pull_request_review, issues). Each delivery is checked against
+ * GITHUB_WEBHOOK_SECRET, recorded to disk and merged into the event store,
+ * so the weekly run can rescore from ingested events instead of
+ * refetching everything:
+ *
+ *   npm run webhook -- --port=3400
+ *   npm run rescore -- --epoch=2914
+ *
+ * While it runs without interruption, every stored GitHub repository's
+ * coverage is extended up to the latest delivery; GitLab and Gitea
+ * repositories are left alone, since only tracker runs fetch them. This
+ * assumes the webhook is installed on every tracked GitHub repository (or
+ * their orgs); after downtime, run npm run track to fill the gap. The
+ * same goes for a push too large
+ * for its payload to list every commit: that repository's coverage stops
+ * until the next tracker run.
+ *
+ * Recorded deliveries can be fed back in without a server, e.g. into a
+ * scratch store. --since sets when the replayed session started listening:
+ *
+ *   npm run webhook -- --replay=../data/fixtures/webhooks --store=/tmp/store.json
+ *   npm run webhook -- --replay=../data/webhooks --since=2025-11-07T10:00:00Z
+ */
+
+// Types
+interface WebhookOptions {
+  port: number;
+  storePath: string;
+  recordDir: string | null;
+  replay: string | null;
+  /** Start of the replayed session (defaults to the first delivery) */
+  since: string | undefined;
+}
+
+const DEFAULT_PORT = 3400;
+const DEFAULT_RECORD_DIR = '../data/webhooks';
+// GitHub caps payloads at 25 MB
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+// Parse command line options
+function parseArgs(): WebhookOptions {
+  const args = process.argv.slice(2);
+  const getArg = (name: string) =>
+    args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const port = Number(getArg('port') || process.env.WEBHOOK_PORT || DEFAULT_PORT);
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid --port "${getArg('port')}"`);
+  }
+
+  return {
+    port,
+    storePath: path.resolve(getArg('store') || DEFAULT_EVENT_STORE_PATH),
+    recordDir: args.includes('--no-record') ? null : path.resolve(getArg('record') || DEFAULT_RECORD_DIR),
+    replay: getArg('replay') ? path.resolve(getArg('replay')!) : null,
+    since: getArg('since'),
+  };
+}
+
+// Merge one normalized delivery into the store
+function ingest(
+  delivery: WebhookDelivery,
+  result: DeliveryResult,
+  store: EventStore,
+  listeningSince: Date
+): void {
+  const receivedAt = new Date(delivery.receivedAt);
+
+  if (result.status === 'ignored') {
+    console.log(`  ⏭️  ${delivery.event} ${delivery.id}: ${result.reason}`);
+  } else {
+    store.ingest(result.repo, result.events, listeningSince, receivedAt, result.missing === null);
+    result.removed.forEach(event => store.remove(event));
+    console.log(
+      `  📥 ${delivery.event} ${delivery.id}: ${repoName(result.repo)} ` +
+        `+${result.events.length} -${result.removed.length} events`
+    );
+    if (result.missing !== null) {
+      console.log(
+        `  ⚠️  ${result.missing}; coverage of ${repoName(result.repo)} stops until the next tracker run`
+      );
+    }
+  }
+
+  store.extendCoverage(listeningSince, receivedAt);
+}
+
+// Keep a delivery so it can be replayed later
+async function recordDelivery(recordDir: string, delivery: WebhookDelivery): Promise<void> {
+  await fs.mkdir(recordDir, { recursive: true });
+  const fileName = `${delivery.receivedAt.replace(/[:.]/g, '-')}-${delivery.event}-${delivery.id}.json`;
+  await fs.writeFile(path.join(recordDir, fileName), JSON.stringify(delivery, null, 2));
+}
+
+// Read recorded deliveries from a file or directory, oldest first
+async function loadRecordings(replayPath: string): Promise<WebhookDelivery[]> {
+  const stat = await fs.stat(replayPath);
+  const files = stat.isDirectory()
+    ? (await fs.readdir(replayPath))
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.join(replayPath, file))
+    : [replayPath];
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const file of files) {
+    const delivery: WebhookDelivery = JSON.parse(await fs.readFile(file, 'utf-8'));
+    deliveries.push({ ...delivery, id: deliveryId(delivery.id) });
+  }
+  return deliveries.sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Replay recorded deliveries into the store
+async function replay(options: WebhookOptions, normalizer: DeliveryNormalizer, store: EventStore) {
+  const deliveries = await loadRecordings(options.replay!);
+  console.log(`📼 Replaying ${deliveries.length} deliveries from ${options.replay}\n`);
+  if (deliveries.length === 0) return;
+
+  // Replayed deliveries stand for a session that started with the first one
+  const listeningSince = new Date(options.since ?? deliveries[0].receivedAt);
+  if (isNaN(listeningSince.getTime())) {
+    throw new Error(`Invalid --since date "${options.since}"`);
+  }
+  for (const delivery of deliveries) {
+    ingest(delivery, normalizer.normalize(delivery), store, listeningSince);
+  }
+  await store.save(new Date(deliveries[deliveries.length - 1].receivedAt));
+
+  console.log(`\n🗃️  ${store.size} events stored in: ${store.path}`);
+}
+
+// Serve webhook deliveries until interrupted
+function serve(options: WebhookOptions, secret: string, normalizer: DeliveryNormalizer) {
+  const listeningSince = new Date();
+  // Deliveries are ingested one at a time so store writes never interleave
+  let queue = Promise.resolve();
+
+  // The store is reopened for every write, so events a tracker run saved
+  // while the receiver was up are merged into rather than overwritten.
+  // Should a run save between our read and write, save() refuses and the
+  // update is applied once more to the fresh copy.
+  const updateStore = async (update: (store: EventStore) => void, updatedAt: Date): Promise<EventStore> => {
+    for (let attempt = 1; ; attempt++) {
+      const store = await EventStore.open(options.storePath);
+      update(store);
+      try {
+        await store.save(updatedAt);
+        return store;
+      } catch (error) {
+        if (attempt >= 3) throw error;
+      }
+    }
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const reply = (status: number, message: string) => {
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(message);
+    };
+
+    if (req.method !== 'POST') {
+      return reply(405, 'Only POST is supported');
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBody(req);
+    } catch (error: any) {
+      return reply(413, error.message);
+    }
+
+    if (!verifySignature(secret, body, req.headers['x-hub-signature-256'] as string | undefined)) {
+      console.error(`  ❌ Rejected delivery with a bad signature from ${req.socket.remoteAddress}`);
+      return reply(401, 'Invalid signature');
+    }
+
+    const event = req.headers['x-github-event'] as string | undefined;
+    if (event === 'ping') {
+      return reply(200, 'pong');
+    }
+    if (!event || !SUPPORTED_WEBHOOK_EVENTS.includes(event)) {
+      return reply(202, `Ignored ${event ?? 'unknown'} event`);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString('utf-8'));
+    } catch {
+      return reply(400, 'Payload is not JSON');
+    }
+
+    const delivery: WebhookDelivery = {
+      id: deliveryId(req.headers['x-github-delivery']),
+      event,
+      receivedAt: new Date().toISOString(),
+      payload,
+    };
+
+    const done = queue.then(async () => {
+      if (options.recordDir) await recordDelivery(options.recordDir, delivery);
+      const result = normalizer.normalize(delivery);
+      await updateStore(
+        store => ingest(delivery, result, store, listeningSince),
+        new Date(delivery.receivedAt)
+      );
+    });
+    queue = done.catch(() => {});
+
+    try {
+      await done;
+      reply(200, 'OK');
+    } catch (error: any) {
+      // A failed delivery can be redelivered from the GitHub UI
+      console.error(`  ❌ Failed to ingest ${event} ${delivery.id}: ${error.message}`);
+      reply(500, 'Failed to ingest delivery');
+    }
+  });
+
+  const shutdown = async () => {
+    console.log('\n🛑 Shutting down webhook receiver...');
+    server.close();
+    await queue;
+    const now = new Date();
+    const store = await updateStore(store => store.extendCoverage(listeningSince, now), now);
+    console.log(`🗃️  ${store.size} events stored in: ${store.path}`);
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  server.listen(options.port, () => {
+    console.log(`👂 Listening for GitHub webhooks on port ${options.port}`);
+    console.log(`   Events: ${SUPPORTED_WEBHOOK_EVENTS.join(', ')}`);
+    console.log(`🗃️  Event store: ${options.storePath}`);
+    if (options.recordDir) {
+      console.log(`📼 Recording deliveries to: ${options.recordDir}`);
+    }
+    console.log('');
+  });
+}
+
+// Main function
+async function main() {
+  console.log('🪝 Starting GitHub webhook receiver\n');
+
+  const options = parseArgs();
+  const config = await loadConfig();
+  const resolver = await AuthorResolver.load(
+    path.join(process.cwd(), '../data/email-mappings.json'),
+    config.scoring.coAuthorShare
+  );
+  const normalizer = new DeliveryNormalizer(config, resolver);
+
+  if (options.replay) {
+    await replay(options, normalizer, await EventStore.open(options.storePath));
+    return;
+  }
+
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ GITHUB_WEBHOOK_SECRET not found in environment variables');
+    console.log('\n💡 Use the same secret as in the repository or org webhook settings:');
+    console.log('   Add to .env file: GITHUB_WEBHOOK_SECRET=your_secret_here\n');
+    process.exit(1);
+  }
+
+  serve(options, secret, normalizer);
+}
+
+// Run the script
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,221 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthorResolver } from './author-resolution.js';
+import { commitEvents, issueEvent, pullRequestEvent, reviewEvent } from './contribution-events.js';
+import { CommitRecord, GitHubUser } from './contribution-sources.js';
+import { findTrackedRepo } from './org-repos.js';
+import { ContributionEvent } from './scoring.js';
+import { Config, TrackedRepo, repoName } from './tracker-config.js';
+
+/**
+ * GITHUB WEBHOOK DELIVERIES
+ *
+ * Checks delivery signatures and normalizes push, pull_request,
+ * pull_request_review and issues payloads into the same events the
+ * tracker builds from the REST API. Payloads differ from API responses
+ * in a few places (labels are objects, review states are lowercase);
+ * those are mapped here.
+ *
+ * Push commits list file names but no line counts, so they are stored
+ * without files, like commits fetched without classification: weighing
+ * every file the same would split them differently from the tracker.
+ * The next tracker run replaces them with the classified commit.
+ *
+ * issue_comment and pull_request_review_comment deliveries are not
+ * ingested; comment events only come from tracker runs.
+ */
+
+// Types
+export interface WebhookDelivery {
+  /** X-GitHub-Delivery */
+  id: string;
+  /** X-GitHub-Event */
+  event: string;
+  receivedAt: string;
+  payload: any;
+}
+
+export type DeliveryResult =
+  | {
+      status: 'ingested';
+      repo: TrackedRepo;
+      events: ContributionEvent[];
+      removed: ContributionEvent[];
+      /** Set when the payload left events out (see pushTruncation) */
+      missing: string | null;
+    }
+  | { status: 'ignored'; reason: string };
+
+interface WebhookRepository {
+  name: string;
+  full_name: string;
+  description: string | null;
+  archived: boolean;
+  fork: boolean;
+  topics?: string[];
+  default_branch: string;
+}
+
+interface WebhookLabel {
+  name: string;
+}
+
+interface PushCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  author: { name: string; email: string; username?: string };
+}
+
+export const SUPPORTED_WEBHOOK_EVENTS = ['push', 'pull_request', 'pull_request_review', 'issues'];
+
+/** Most commits GitHub lists in a push payload */
+const MAX_PUSH_COMMITS = 2048;
+
+const DELIVERY_ID = /^[0-9a-f-]{36}$/i;
+
+/**
+ * X-GitHub-Delivery value safe to use in a file name, or `unknown`
+ *
+ * The header isn't covered by the signature, so a replayed body can come
+ * with any id; only GUID-shaped ids are kept.
+ */
+export function deliveryId(value: unknown): string {
+  return typeof value === 'string' && DELIVERY_ID.test(value) ? value : 'unknown';
+}
+
+/**
+ * Check the X-Hub-Signature-256 header against the raw request body
+ */
+export function verifySignature(secret: string, body: Buffer, signature: string | undefined): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = createHmac('sha256', secret).update(body).digest();
+  const actual = Buffer.from(signature.slice('sha256='.length), 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Turns deliveries into events for the repositories the config tracks
+ */
+export class DeliveryNormalizer {
+  constructor(
+    private config: Config,
+    private resolver: AuthorResolver
+  ) {}
+
+  normalize(delivery: WebhookDelivery): DeliveryResult {
+    if (!SUPPORTED_WEBHOOK_EVENTS.includes(delivery.event)) {
+      return { status: 'ignored', reason: `unsupported event ${delivery.event}` };
+    }
+
+    const repository: WebhookRepository | undefined = delivery.payload.repository;
+    if (!repository) {
+      return { status: 'ignored', reason: 'no repository in payload' };
+    }
+
+    const [owner] = repository.full_name.split('/');
+    const repo = findTrackedRepo(this.config, owner, {
+      name: repository.name,
+      description: repository.description,
+      archived: repository.archived,
+      fork: repository.fork,
+      topics: repository.topics || [],
+    });
+    if (!repo) {
+      return { status: 'ignored', reason: `${repository.full_name} is not tracked` };
+    }
+
+    const name = repoName(repo);
+    const { payload } = delivery;
+    switch (delivery.event) {
+      case 'push':
+        // The tracker only counts commits on the default branch
+        if (payload.ref !== `refs/heads/${repository.default_branch}`) {
+          return { status: 'ignored', reason: `push to ${payload.ref}` };
+        }
+        return this.ingested(
+          repo,
+          this.pushEvents(repo, payload.commits || [], delivery.receivedAt),
+          pushTruncation(payload)
+        );
+
+      case 'pull_request':
+        return this.ingested(repo, [
+          pullRequestEvent({ ...payload.pull_request, labels: labelNames(payload.pull_request.labels) }, name),
+        ]);
+
+      case 'pull_request_review':
+        return this.ingested(repo, [
+          reviewEvent(
+            {
+              id: payload.review.id,
+              user: payload.review.user as GitHubUser | null,
+              state: String(payload.review.state).toUpperCase(),
+              submitted_at: payload.review.submitted_at,
+              pull_request_url: payload.review.pull_request_url,
+            },
+            name
+          ),
+        ]);
+
+      default: {
+        const event = issueEvent({ ...payload.issue, labels: labelNames(payload.issue.labels) }, name);
+        // Deleted and transferred issues no longer count for this repository
+        if (payload.action === 'deleted' || payload.action === 'transferred') {
+          return { status: 'ingested', repo, events: [], removed: event ? [event] : [], missing: null };
+        }
+        return this.ingested(repo, [event]);
+      }
+    }
+  }
+
+  private ingested(
+    repo: TrackedRepo,
+    events: (ContributionEvent | null)[],
+    missing: string | null = null
+  ): DeliveryResult {
+    return {
+      status: 'ingested',
+      repo,
+      events: events.filter((event): event is ContributionEvent => event !== null),
+      removed: [],
+      missing,
+    };
+  }
+
+  private pushEvents(repo: TrackedRepo, pushCommits: PushCommit[], receivedAt: string): ContributionEvent[] {
+    const name = repoName(repo);
+    const commits: CommitRecord[] = pushCommits.map(commit => ({
+      sha: commit.id,
+      author: commit.author.username ? { login: commit.author.username } : null,
+      commit: {
+        author: { name: commit.author.name, email: commit.author.email, date: commit.timestamp },
+        message: commit.message,
+      },
+    }));
+
+    const credits = this.resolver.creditCommits(commits, name);
+    return commitEvents(credits, null, name, new Date(receivedAt));
+  }
+}
+
+/**
+ * Why a push payload doesn't list every pushed commit, or null
+ *
+ * Large pushes only carry the first commits; `size` has the real count
+ * when GitHub sends it.
+ */
+function pushTruncation(payload: { size?: number; commits?: PushCommit[] }): string | null {
+  const listed = (payload.commits || []).length;
+  if (typeof payload.size === 'number' && payload.size > listed) {
+    return `push lists ${listed} of ${payload.size} commits`;
+  }
+  if (listed >= MAX_PUSH_COMMITS) {
+    return `push lists the maximum of ${MAX_PUSH_COMMITS} commits`;
+  }
+  return null;
+}
+
+function labelNames(labels: WebhookLabel[] | undefined): string[] {
+  return (labels || []).map(label => label.name);
+}
@@ -8,7 +8,8 @@
  * 3. Generates Merkle tree and proofs
  * 4. Prepares data for on-chain epoch creation
  *
- * Run this script every Monday (or your chosen distribution day)
+ * Run this script after each epoch ends. Epochs are the tracker's weeks
+ * counted from 1970-01-01, so they start on Thursdays at 00:00 UTC.
  */
 
 import fs from 'fs';
@@ -16,6 +17,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
 import { ethers } from 'ethers';
+import { epochAt, epochWindow } from './tracking-window.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -32,28 +34,24 @@ interface WeeklyDistributionConfig {
 }
 
 /**
- * Get the current week number (ISO week)
+ * Get the week number to distribute: the last epoch that has fully
+ * ended, numbered like the tracker's --epoch (see tracking-window.ts)
  */
-function getCurrentWeekNumber(): number {
-  const now = new Date();
-  const start = new Date(now.getFullYear(), 0, 1);
-  const diff = now.getTime() - start.getTime();
-  const oneWeek = 1000 * 60 * 60 * 24 * 7;
-  return Math.ceil(diff / oneWeek);
+function getDistributionWeekNumber(): number {
+  return epochAt(new Date()) - 1;
 }
 
 /**
- * Get date range for the past week
+ * Get date range for the week (inclusive end date)
  */
-function getWeekDateRange(): { start: string; end: string } {
-  const now = new Date();
-  const end = new Date(now);
-  const start = new Date(now);
-  start.setDate(start.getDate() - 7);
+function getWeekDateRange(weekNumber: number): { start: string; end: string } {
+  const { from, to } = epochWindow(weekNumber);
+  const lastDay = new Date(to);
+  lastDay.setUTCDate(lastDay.getUTCDate() - 1);
 
   return {
-    start: start.toISOString().split('T')[0],
-    end: end.toISOString().split('T')[0]
+    start: from.toISOString().split('T')[0],
+    end: lastDay.toISOString().split('T')[0]
   };
 }
 
@@ -82,12 +80,23 @@ async function getWeeklyYield(
 
 /**
  * Track GitHub contributions for the past week
+ *
+ * With CONTRIBUTION_SOURCE=webhooks the week is rescored from events the
+ * webhook receiver ingested instead of being refetched from the API.
  */
-async function trackGitHubContributions(): Promise<void> {
-  console.log('🔍 Tracking GitHub contributions...\n');
+async function trackGitHubContributions(weekNumber: number): Promise<void> {
+  const fromWebhooks = process.env.CONTRIBUTION_SOURCE === 'webhooks';
+  console.log(
+    fromWebhooks
+      ? '🔍 Scoring GitHub contributions from ingested webhook events...\n'
+      : '🔍 Tracking GitHub contributions...\n'
+  );
+
+  const { from, to } = epochWindow(weekNumber);
+  const command = fromWebhooks ? 'rescore' : 'track';
 
   try {
-    execSync('npm run track', {
+    execSync(`npm run ${command} -- --epoch=${weekNumber}`, {
       cwd: path.join(__dirname),
       stdio: 'inherit'
     });
@@ -95,6 +104,16 @@ async function trackGitHubContributions(): Promise<void> {
     console.error('❌ Failed to track GitHub contributions');
     throw error;
   }
+
+  // Make sure contributors.json was written for this exact week
+  const contributorsPath = path.join(__dirname, '../data/contributors.json');
+  const { window } = JSON.parse(fs.readFileSync(contributorsPath, 'utf-8'));
+  if (window?.epoch !== weekNumber || window?.from !== from.toISOString() || window?.to !== to.toISOString()) {
+    throw new Error(
+      `contributors.json covers ${window?.from ?? '?'} to ${window?.to ?? '?'} (epoch ${window?.epoch ?? '?'}), ` +
+      `expected epoch ${weekNumber}, ${from.toISOString()} to ${to.toISOString()}`
+    );
+  }
 }
 
 /**
@@ -105,7 +124,8 @@ function createDistributionConfig(
   totalYield: bigint,
   config: Partial<WeeklyDistributionConfig>
 ): void {
-  const dateRange = getWeekDateRange();
+  const dateRange = getWeekDateRange(weekNumber);
+  const window = epochWindow(weekNumber);
 
   const distributionConfig = {
     epochId: weekNumber,
@@ -120,6 +140,10 @@ function createDistributionConfig(
       weekNumber,
       startDate: dateRange.start,
       endDate: dateRange.end,
+      trackingWindow: {
+        from: window.from.toISOString(),
+        to: window.to.toISOString()
+      },
       generatedAt: new Date().toISOString()
     }
   };
@@ -289,7 +313,7 @@ async function main() {
 
   try {
     // Get configuration from environment
-    const weekNumber = getCurrentWeekNumber();
+    const weekNumber = getDistributionWeekNumber();
     const strategyAddress = process.env.STRATEGY_ADDRESS || '';
     const rpcUrl = process.env.RPC_URL || '';
     const assetAddress = process.env.ASSET_ADDRESS || '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
@@ -303,7 +327,7 @@ async function main() {
     console.log('');
 
     // Step 1: Track GitHub contributions
-    await trackGitHubContributions();
+    await trackGitHubContributions(weekNumber);
 
     // Step 2: Get weekly yield
     const totalYield = await getWeeklyYield(strategyAddress, rpcUrl);